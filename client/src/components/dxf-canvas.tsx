@@ -0,0 +1,217 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef } from "react";
+import type { Drawing, DrawingText } from "@shared/drawing";
+
+export interface DxfCanvasHandle {
+  zoomIn: () => void;
+  zoomOut: () => void;
+  zoomExtents: () => void;
+}
+
+interface DxfCanvasProps {
+  drawing: Drawing;
+  hiddenLayers?: Set<string>;
+  onZoomChange?: (percent: number) => void;
+}
+
+// World to screen mapping: sx = wx * scale + x, sy = -wy * scale + y (DXF Y points up)
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const ZOOM_STEP = 1.25;
+const MIN_TEXT_PIXELS = 2;
+
+const TEXT_ALIGN: Record<DrawingText['align'], CanvasTextAlign> = {
+  left: 'left',
+  center: 'center',
+  right: 'right',
+};
+
+const DxfCanvas = forwardRef<DxfCanvasHandle, DxfCanvasProps>(function DxfCanvas({ drawing, hiddenLayers, onZoomChange }, ref) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewRef = useRef<View>({ scale: 1, x: 0, y: 0 });
+  const fitScaleRef = useRef(1);
+  const frameRef = useRef<number>();
+  const drawRef = useRef<() => void>(() => {});
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const layerColors = useMemo(
+    () => new Map(drawing.layers.map(layer => [layer.name, layer.color])),
+    [drawing]
+  );
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+
+    const { scale, x, y } = viewRef.current;
+    ctx.lineWidth = 1;
+
+    for (const primitive of drawing.primitives) {
+      if (hiddenLayers?.has(primitive.layer)) continue;
+      const color = primitive.color ?? layerColors.get(primitive.layer) ?? '#ffffff';
+
+      if (primitive.type === 'path') {
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        primitive.points.forEach(([px, py], i) => {
+          const sx = px * scale + x;
+          const sy = -py * scale + y;
+          if (i === 0) ctx.moveTo(sx, sy);
+          else ctx.lineTo(sx, sy);
+        });
+        if (primitive.closed) ctx.closePath();
+        ctx.stroke();
+      } else {
+        const size = primitive.height * scale;
+        if (size < MIN_TEXT_PIXELS) continue;
+
+        ctx.save();
+        ctx.translate(primitive.x * scale + x, -primitive.y * scale + y);
+        ctx.rotate(-primitive.rotation * Math.PI / 180);
+        ctx.fillStyle = color;
+        ctx.font = `${size}px sans-serif`;
+        ctx.textAlign = TEXT_ALIGN[primitive.align];
+        ctx.textBaseline = primitive.baseline;
+        ctx.fillText(primitive.text, 0, 0);
+        ctx.restore();
+      }
+    }
+  }, [drawing, hiddenLayers, layerColors]);
+
+  drawRef.current = draw;
+
+  // Stable across redraw inputs so that layer toggles do not refit the view
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => drawRef.current());
+  }, []);
+
+  const notifyZoom = useCallback(() => {
+    onZoomChange?.(Math.round(viewRef.current.scale / fitScaleRef.current * 100));
+  }, [onZoomChange]);
+
+  const zoomAt = useCallback((factor: number, sx: number, sy: number) => {
+    const view = viewRef.current;
+    viewRef.current = {
+      scale: view.scale * factor,
+      x: sx - (sx - view.x) * factor,
+      y: sy - (sy - view.y) * factor,
+    };
+    notifyZoom();
+    scheduleDraw();
+  }, [notifyZoom, scheduleDraw]);
+
+  const zoomExtents = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    const extents = drawing.extents;
+
+    if (!extents) {
+      viewRef.current = { scale: 1, x: width / 2, y: height / 2 };
+    } else {
+      const drawingWidth = Math.max(extents.maxX - extents.minX, 1e-6);
+      const drawingHeight = Math.max(extents.maxY - extents.minY, 1e-6);
+      const scale = Math.min(width / drawingWidth, height / drawingHeight) * 0.9;
+      viewRef.current = {
+        scale,
+        x: width / 2 - (extents.minX + extents.maxX) / 2 * scale,
+        y: height / 2 + (extents.minY + extents.maxY) / 2 * scale,
+      };
+    }
+
+    fitScaleRef.current = viewRef.current.scale;
+    notifyZoom();
+    scheduleDraw();
+  }, [drawing, notifyZoom, scheduleDraw]);
+
+  useImperativeHandle(ref, () => ({
+    zoomIn: () => {
+      const canvas = canvasRef.current;
+      if (canvas) zoomAt(ZOOM_STEP, canvas.clientWidth / 2, canvas.clientHeight / 2);
+    },
+    zoomOut: () => {
+      const canvas = canvasRef.current;
+      if (canvas) zoomAt(1 / ZOOM_STEP, canvas.clientWidth / 2, canvas.clientHeight / 2);
+    },
+    zoomExtents,
+  }), [zoomAt, zoomExtents]);
+
+  // Keep the backing store in sync with the element size and refit on resize
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(() => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * dpr;
+      canvas.height = canvas.clientHeight * dpr;
+      zoomExtents();
+    });
+    observer.observe(canvas);
+
+    return () => observer.disconnect();
+  }, [zoomExtents]);
+
+  // Wheel zoom needs a non-passive listener to prevent page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  useEffect(() => {
+    scheduleDraw();
+  }, [draw, scheduleDraw]);
+
+  useEffect(() => () => {
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full cursor-grab active:cursor-grabbing"
+      onMouseDown={(e) => {
+        dragRef.current = { x: e.clientX, y: e.clientY };
+      }}
+      onMouseMove={(e) => {
+        if (!dragRef.current) return;
+        const view = viewRef.current;
+        viewRef.current = {
+          ...view,
+          x: view.x + e.clientX - dragRef.current.x,
+          y: view.y + e.clientY - dragRef.current.y,
+        };
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        scheduleDraw();
+      }}
+      onMouseUp={() => {
+        dragRef.current = null;
+      }}
+      onMouseLeave={() => {
+        dragRef.current = null;
+      }}
+    />
+  );
+});
+
+export default DxfCanvas;
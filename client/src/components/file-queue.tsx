@@ -1,57 +1,155 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { useUploads, cancelUpload } from "@/hooks/use-uploads";
+import { useCapabilities } from "@/hooks/use-capabilities";
 import { apiRequest } from "@/lib/queryClient";
-import { getFileTypeIcon, getFileTypeColor, getStatusColor, formatFileSize } from "@/lib/file-utils";
+import { getStatusColor, formatFileSize } from "@/lib/file-utils";
+import FileThumbnail from "@/components/file-thumbnail";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import type { File } from "@shared/schema";
+import { OUTPUT_FORMAT_LABELS, type OutputFormat, type TranslationSummary } from "@shared/derivatives";
 
 interface FileQueueProps {
   onFileSelect: (file: File) => void;
   selectedFileId?: number;
+  // True while file events are pushed over the WebSocket, which makes polling unnecessary
+  liveUpdates?: boolean;
 }
 
-export default function FileQueue({ onFileSelect, selectedFileId }: FileQueueProps) {
+// What a failed delete could not remove, recorded by the server
+function deleteFailureMessage(file: File): string | null {
+  const failures: Array<{ target: string; error: string }> = (file.metadata ? JSON.parse(file.metadata).deleteFailures : null) || [];
+  return failures.length > 0
+    ? `Delete incomplete, retry to finish. ${failures.map(failure => `${failure.target}: ${failure.error}`).join('; ')}`
+    : null;
+}
+
+export default function FileQueue({ onFileSelect, selectedFileId, liveUpdates = false }: FileQueueProps) {
+  const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
+  // An unfinished upload waiting for the user to confirm it is deleted; it skips the trash
+  const [pendingDelete, setPendingDelete] = useState<File | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const uploads = useUploads();
+  const capabilities = useCapabilities();
 
   const { data: files = [], isLoading } = useQuery<File[]>({
     queryKey: ['/api/files'],
-    refetchInterval: 2000, // Poll every 2 seconds for status updates
+    refetchInterval: liveUpdates ? false : 2000, // Poll every 2 seconds when live updates are unavailable
   });
 
   const retryMutation = useMutation({
     mutationFn: async (fileId: number) => {
-      const response = await apiRequest('PATCH', `/api/files/${fileId}/status`, {
-        status: 'processing'
-      });
+      const response = await apiRequest('POST', `/api/files/${fileId}/reprocess`);
       return response.json();
     },
+    onMutate: async (fileId: number) => {
+      // Move the entry back into the queue straight away instead of waiting for the next poll
+      await queryClient.cancelQueries({ queryKey: ['/api/files'] });
+      const previousFiles = queryClient.getQueryData<File[]>(['/api/files']);
+      queryClient.setQueryData<File[]>(['/api/files'], (current) =>
+        current?.map((file) =>
+          file.id === fileId ? { ...file, status: 'queued', errorMessage: null } : file
+        )
+      );
+      return { previousFiles };
+    },
     onSuccess: () => {
       toast({
         title: "Retry initiated",
         description: "File processing has been restarted",
       });
+    },
+    onError: (error: Error, _fileId, context) => {
+      if (context?.previousFiles) {
+        queryClient.setQueryData(['/api/files'], context.previousFiles);
+      }
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const response = await apiRequest('POST', `/api/files/${fileId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Processing cancelled",
+        description: "Use Retry to process the file again",
+      });
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
     },
     onError: (error: Error) => {
       toast({
-        title: "Retry failed",
+        title: "Cancel failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
-  const deleteMutation = useMutation({
+  const restoreMutation = useMutation({
     mutationFn: async (fileId: number) => {
-      const response = await apiRequest('DELETE', `/api/files/${fileId}`);
+      const response = await apiRequest('POST', `/api/trash/${fileId}/restore`);
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "File deleted",
-        description: "File has been removed successfully",
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
       });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const response = await apiRequest('DELETE', `/api/files/${fileId}`);
+      return response.json() as Promise<{ message: string; file?: File }>;
+    },
+    onSuccess: (result, fileId) => {
+      // Unfinished uploads are deleted outright; everything else goes to the trash and can be undone
+      if (result.file) {
+        toast({
+          title: "Moved to trash",
+          description: result.file.originalName,
+          action: (
+            <ToastAction altText="Undo" onClick={() => restoreMutation.mutate(fileId)}>
+              Undo
+            </ToastAction>
+          ),
+        });
+      } else {
+        toast({
+          title: "File deleted",
+          description: "File has been removed successfully",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
     },
     onError: (error: Error) => {
       toast({
@@ -59,15 +157,37 @@ export default function FileQueue({ onFileSelect, selectedFileId }: FileQueuePro
         description: error.message,
         variant: "destructive",
       });
+      // A partly deleted file stays in the queue with what could not be removed
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
     },
   });
 
-  const getStatusMessage = (status: string) => {
-    switch (status) {
-      case "uploading":
-        return "Uploading...";
-      case "processing":
-        return "Processing with AutoCAD viewer...";
+  // Uploads started from this tab report their byte progress; others only show their status
+  const uploadFor = (file: File) =>
+    file.status === "uploading" ? uploads.find(upload => upload.fileId === file.id && upload.status === "uploading") : undefined;
+
+  const uploadPercent = (file: File) => {
+    const upload = uploadFor(file);
+    return upload && upload.size ? Math.round((upload.loaded / upload.size) * 100) : null;
+  };
+
+  // The parsed APS manifest, stored while a drawing translates and kept afterwards
+  const translationFor = (file: File): TranslationSummary | undefined =>
+    file.metadata ? JSON.parse(file.metadata).translation : undefined;
+
+  const getStatusMessage = (file: File) => {
+    switch (file.status) {
+      case "uploading": {
+        const percent = uploadPercent(file);
+        return percent === null ? "Uploading..." : `Uploading... ${percent}%`;
+      }
+      case "queued":
+        return "Waiting to be processed...";
+      case "processing": {
+        if (file.fileType !== "autocad" || !capabilities?.aps) return "Processing...";
+        const translation = translationFor(file);
+        return translation ? `Processing with AutoCAD viewer (${translation.progress}%)` : "Processing with AutoCAD viewer...";
+      }
       case "ready":
         return "Ready to view";
       case "error":
@@ -81,6 +201,8 @@ export default function FileQueue({ onFileSelect, selectedFileId }: FileQueuePro
     switch (status) {
       case "uploading":
         return "bg-blue-50 border-blue-200";
+      case "queued":
+        return "bg-slate-50 border-slate-200";
       case "processing":
         return "bg-amber-50 border-amber-200";
       case "ready":
@@ -113,15 +235,193 @@ export default function FileQueue({ onFileSelect, selectedFileId }: FileQueuePro
     );
   }
 
+  const renderUploadProgress = (file: File) => {
+    const percent = uploadPercent(file);
+    if (percent === null) return null;
+    return (
+      <div className="w-full bg-blue-100 rounded-full h-1 mt-1">
+        <div className="bg-blue-600 h-1 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+      </div>
+    );
+  };
+
+  // Overall and per-output progress while APS translates, and the manifest's warnings and errors afterwards
+  const renderTranslation = (file: File) => {
+    const translation = translationFor(file);
+    if (!translation) return null;
+
+    const problems = translation.messages.filter(message => message.type !== 'info');
+    const warnings = problems.filter(message => message.type === 'warning').length;
+    const errors = problems.length - warnings;
+
+    return (
+      <>
+        {file.status === "processing" && (
+          <>
+            <div className="w-full bg-amber-100 rounded-full h-1 mt-1">
+              <div className="bg-amber-500 h-1 rounded-full transition-all" style={{ width: `${translation.progress}%` }}></div>
+            </div>
+            {translation.outputs.length > 1 && (
+              <p className="text-xs text-slate-500 mt-1 truncate">
+                {translation.outputs
+                  .map(output => `${OUTPUT_FORMAT_LABELS[output.outputType as OutputFormat] || output.outputType} ${output.progress}%`)
+                  .join(' · ')}
+              </p>
+            )}
+          </>
+        )}
+        {problems.length > 0 && (
+          <p
+            className={`text-xs mt-1 truncate ${errors > 0 ? 'text-red-600' : 'text-amber-600'}`}
+            title={problems.map(message => message.message).join('\n')}
+          >
+            <i className="fas fa-exclamation-triangle mr-1"></i>
+            {[
+              errors > 0 && `${errors} ${errors === 1 ? 'error' : 'errors'}`,
+              warnings > 0 && `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`,
+            ].filter(Boolean).join(', ')}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  const renderActions = (file: File) => {
+    const upload = uploadFor(file);
+    return (
+      <div className="flex items-center space-x-2">
+        {upload && (
+          <button
+            className="text-slate-500 hover:text-slate-700 text-xs font-medium"
+            onClick={(e) => {
+              e.stopPropagation();
+              cancelUpload(upload.key);
+            }}
+          >
+            Cancel
+          </button>
+        )}
+
+        {file.status === "processing" && (
+          <div className="w-4 h-4 border-2 border-amber-600 border-t-transparent rounded-full animate-spin"></div>
+        )}
+
+        {(file.status === "queued" || file.status === "processing") && (
+          <button
+            className="text-slate-500 hover:text-slate-700 text-xs font-medium"
+            onClick={(e) => {
+              e.stopPropagation();
+              cancelMutation.mutate(file.id);
+            }}
+            disabled={cancelMutation.isPending}
+          >
+            Cancel
+          </button>
+        )}
+        
+        {file.status === "ready" && (
+          <button 
+            className="text-green-600 hover:text-green-700 text-xs font-medium"
+            onClick={(e) => {
+              e.stopPropagation();
+              onFileSelect(file);
+            }}
+          >
+            View <i className="fas fa-external-link-alt ml-1"></i>
+          </button>
+        )}
+        
+        {file.status === "error" && (
+          <button
+            className="text-red-600 hover:text-red-700 text-xs font-medium"
+            onClick={(e) => {
+              e.stopPropagation();
+              retryMutation.mutate(file.id);
+            }}
+            disabled={retryMutation.isPending}
+          >
+            Retry
+          </button>
+        )}
+
+        <button
+          className="text-gray-400 hover:text-red-600 text-xs"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (file.status === "uploading") {
+              setPendingDelete(file);
+            } else {
+              deleteMutation.mutate(file.id);
+            }
+          }}
+          disabled={deleteMutation.isPending}
+          title={file.status === "uploading" ? "Delete upload" : "Move to trash"}
+        >
+          <i className="fas fa-trash"></i>
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-      <h3 className="text-lg font-semibold text-slate-900 mb-4">File Queue</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-900">File Queue</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setViewMode('list')}
+            className={`p-1.5 rounded text-sm ${viewMode === 'list' ? 'bg-slate-100 text-slate-900' : 'text-slate-400 hover:text-slate-600'}`}
+            title="List view"
+          >
+            <i className="fas fa-list"></i>
+          </button>
+          <button
+            onClick={() => setViewMode('grid')}
+            className={`p-1.5 rounded text-sm ${viewMode === 'grid' ? 'bg-slate-100 text-slate-900' : 'text-slate-400 hover:text-slate-600'}`}
+            title="Grid view"
+          >
+            <i className="fas fa-th-large"></i>
+          </button>
+        </div>
+      </div>
       
       {files.length === 0 ? (
         <div className="text-center py-8">
           <i className="fas fa-folder-open text-gray-400 text-3xl mb-2"></i>
           <p className="text-gray-500">No files uploaded yet</p>
         </div>
+      ) : viewMode === 'grid' ? (
+        <div className="grid grid-cols-2 gap-3">
+          {files.map((file) => (
+            <div
+              key={file.id}
+              className={`flex flex-col p-2 rounded-lg border cursor-pointer transition-all ${
+                getStatusBgColor(file.status)
+              } ${selectedFileId === file.id ? 'ring-2 ring-blue-500' : ''}`}
+              onClick={() => file.status === 'ready' && onFileSelect(file)}
+            >
+              <FileThumbnail file={file} className="w-full h-24" iconClassName="text-3xl" />
+              <p className="text-sm font-medium text-slate-900 truncate mt-2" title={file.originalName}>
+                {file.originalName}
+              </p>
+              <p className={`text-xs truncate ${getStatusColor(file.status)}`}>
+                {getStatusMessage(file)}
+              </p>
+              {renderUploadProgress(file)}
+              {renderTranslation(file)}
+              {file.errorMessage && (
+                <p className="text-xs text-red-600 mt-1 truncate" title={file.errorMessage}>{file.errorMessage}</p>
+              )}
+              {deleteFailureMessage(file) && (
+                <p className="text-xs text-red-600 mt-1 truncate" title={deleteFailureMessage(file)!}>{deleteFailureMessage(file)}</p>
+              )}
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                {renderActions(file)}
+              </div>
+            </div>
+          ))}
+        </div>
       ) : (
         <div className="space-y-3">
           {files.map((file) => (
@@ -133,68 +433,55 @@ export default function FileQueue({ onFileSelect, selectedFileId }: FileQueuePro
               onClick={() => file.status === 'ready' && onFileSelect(file)}
             >
               <div className="flex items-center space-x-3 flex-1 min-w-0">
-                <i className={`${getFileTypeIcon(file.fileType)} ${getFileTypeColor(file.fileType)}`}></i>
+                <FileThumbnail file={file} />
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-slate-900 truncate">
                     {file.originalName}
                   </p>
                   <div className="flex items-center space-x-2">
                     <p className={`text-xs ${getStatusColor(file.status)}`}>
-                      {getStatusMessage(file.status)}
+                      {getStatusMessage(file)}
                     </p>
                     <span className="text-xs text-gray-500">• {formatFileSize(file.size)}</span>
                   </div>
+                  {renderUploadProgress(file)}
+                  {renderTranslation(file)}
                   {file.errorMessage && (
                     <p className="text-xs text-red-600 mt-1">{file.errorMessage}</p>
                   )}
+                  {deleteFailureMessage(file) && (
+                    <p className="text-xs text-red-600 mt-1">{deleteFailureMessage(file)}</p>
+                  )}
                 </div>
               </div>
 
-              <div className="flex items-center space-x-2 ml-2">
-                {file.status === "processing" && (
-                  <div className="w-4 h-4 border-2 border-amber-600 border-t-transparent rounded-full animate-spin"></div>
-                )}
-                
-                {file.status === "ready" && (
-                  <button 
-                    className="text-green-600 hover:text-green-700 text-xs font-medium"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onFileSelect(file);
-                    }}
-                  >
-                    View <i className="fas fa-external-link-alt ml-1"></i>
-                  </button>
-                )}
-                
-                {file.status === "error" && (
-                  <button
-                    className="text-red-600 hover:text-red-700 text-xs font-medium"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      retryMutation.mutate(file.id);
-                    }}
-                    disabled={retryMutation.isPending}
-                  >
-                    Retry
-                  </button>
-                )}
-
-                <button
-                  className="text-gray-400 hover:text-red-600 text-xs"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    deleteMutation.mutate(file.id);
-                  }}
-                  disabled={deleteMutation.isPending}
-                >
-                  <i className="fas fa-trash"></i>
-                </button>
+              <div className="ml-2">
+                {renderActions(file)}
               </div>
             </div>
           ))}
         </div>
       )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete the upload of {pendingDelete?.originalName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The file has not finished uploading, so it is deleted right away instead of moving to the trash. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,32 @@
+import { useState } from "react";
+import { getFileTypeIcon, getFileTypeColor } from "@/lib/file-utils";
+import type { File } from "@shared/schema";
+
+interface FileThumbnailProps {
+  file: File;
+  className?: string;
+  iconClassName?: string;
+}
+
+export default function FileThumbnail({ file, className = "w-8 h-8", iconClassName = "" }: FileThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+  const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+
+  // Fall back to the file type icon when there is no embedded preview
+  if (!metadata.thumbnail || failed) {
+    return (
+      <div className={`${className} flex items-center justify-center flex-shrink-0`}>
+        <i className={`${getFileTypeIcon(file.fileType)} ${getFileTypeColor(file.fileType)} ${iconClassName}`}></i>
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={`/api/files/${file.id}/thumbnail`}
+      alt={`Preview of ${file.originalName}`}
+      onError={() => setFailed(true)}
+      className={`${className} object-contain bg-white rounded border border-slate-200 flex-shrink-0`}
+    />
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/file-utils";
+import FileThumbnail from "@/components/file-thumbnail";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { File } from "@shared/schema";
+
+interface TrashResponse {
+  retentionDays: number;
+  files: File[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Trashed files are purged automatically once they have been in the trash for the retention period
+function daysUntilPurge(file: File, retentionDays: number): number {
+  const purgeAt = new Date(file.deletedAt!).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+}
+
+// What a failed "Delete forever" could not remove, recorded by the server
+function deleteFailuresFor(file: File): Array<{ target: string; error: string }> {
+  return (file.metadata ? JSON.parse(file.metadata).deleteFailures : null) || [];
+}
+
+export default function FileTrash() {
+  const [expanded, setExpanded] = useState(false);
+  // The file waiting for the user to confirm it is deleted forever
+  const [pendingDelete, setPendingDelete] = useState<File | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<TrashResponse>({
+    queryKey: ['/api/trash'],
+  });
+  const files = data?.files ?? [];
+
+  const restoreMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const response = await apiRequest('POST', `/api/trash/${fileId}/restore`);
+      return response.json();
+    },
+    onSuccess: (file: File) => {
+      toast({
+        title: "File restored",
+        description: file.originalName,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const response = await apiRequest('DELETE', `/api/trash/${fileId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "File deleted",
+        description: "File has been removed permanently",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      // A partly deleted file stays in the trash with what could not be removed
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <button
+        className="flex items-center justify-between w-full"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <h3 className="text-lg font-semibold text-slate-900">
+          <i className="fas fa-trash-alt text-slate-400 mr-2"></i>
+          Trash
+          {files.length > 0 && <span className="ml-2 text-sm font-normal text-slate-500">({files.length})</span>}
+        </h3>
+        <i className={`fas fa-chevron-${expanded ? 'up' : 'down'} text-slate-400 text-sm`}></i>
+      </button>
+
+      {expanded && (
+        files.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">The trash is empty</p>
+        ) : (
+          <div className="space-y-3 mt-4">
+            {data && (
+              <p className="text-xs text-slate-500">
+                Files are deleted forever {data.retentionDays} days after they are moved to the trash.
+              </p>
+            )}
+            {files.map((file) => (
+              <div key={file.id} className="flex items-center justify-between p-3 rounded-lg border bg-slate-50 border-slate-200">
+                <div className="flex items-center space-x-3 flex-1 min-w-0">
+                  <FileThumbnail file={file} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-900 truncate">{file.originalName}</p>
+                    <p className="text-xs text-gray-500">
+                      Deleted {new Date(file.deletedAt!).toLocaleDateString()} • {formatFileSize(file.size)}
+                      {data && ` • purged in ${daysUntilPurge(file, data.retentionDays)} days`}
+                    </p>
+                    {deleteFailuresFor(file).length > 0 && (
+                      <p className="text-xs text-red-600 mt-1">
+                        Delete incomplete, retry to finish. {deleteFailuresFor(file).map(failure => `${failure.target}: ${failure.error}`).join('; ')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="ml-2 flex items-center space-x-2">
+                  <button
+                    className="text-blue-600 hover:text-blue-700 text-xs font-medium"
+                    onClick={() => restoreMutation.mutate(file.id)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="text-red-600 hover:text-red-700 text-xs font-medium"
+                    onClick={() => setPendingDelete(file)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.originalName} forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The file, its previews and any Autodesk translations are removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,57 +1,93 @@
 import { useCallback, useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useCapabilities } from "@/hooks/use-capabilities";
+import { useUploads, startUploads, cancelUpload, dismissUpload, type Upload } from "@/hooks/use-uploads";
+import { formatFileSize } from "@/lib/file-utils";
+import type { UploadLimits } from "@/lib/chunked-upload";
+import { FILE_EXTENSIONS } from "@shared/schema";
+
+// Used until the server reports its own limit
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+const ACCEPTED_EXTENSIONS = Object.values(FILE_EXTENSIONS).flat().join(',');
+
+function UploadRow({ upload }: { upload: Upload }) {
+  const percent = upload.size ? Math.round((upload.loaded / upload.size) * 100) : 100;
+  const active = upload.status === 'pending' || upload.status === 'uploading';
+
+  return (
+    <li className="p-2 border border-slate-200 rounded-lg">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-slate-900 truncate mr-2">{upload.name}</span>
+        {active ? (
+          <button
+            className="text-slate-500 hover:text-slate-700 text-xs font-medium"
+            onClick={() => cancelUpload(upload.key)}
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            className="text-slate-400 hover:text-slate-600 text-xs"
+            onClick={() => dismissUpload(upload.key)}
+            aria-label="Dismiss"
+          >
+            <i className="fas fa-times"></i>
+          </button>
+        )}
+      </div>
+      {active && (
+        <>
+          <div className="w-full bg-slate-200 rounded-full h-1.5 mt-2">
+            <div className="bg-blue-600 h-1.5 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {upload.status === 'pending'
+              ? 'Waiting...'
+              : `${formatFileSize(upload.loaded)} of ${formatFileSize(upload.size)} (${percent}%)`}
+          </p>
+        </>
+      )}
+      {upload.status === 'done' && <p className="text-xs text-green-600 mt-1">Uploaded, processing started</p>}
+      {upload.status === 'cancelled' && <p className="text-xs text-slate-500 mt-1">Upload cancelled</p>}
+      {upload.status === 'error' && <p className="text-xs text-red-600 mt-1">{upload.error}</p>}
+    </li>
+  );
+}
 
 export default function FileUpload() {
   const [isDragOver, setIsDragOver] = useState(false);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const uploads = useUploads();
+  const capabilities = useCapabilities();
+  const localOnly = capabilities?.mode === 'local-only';
 
-  const uploadMutation = useMutation({
-    mutationFn: async (files: FileList) => {
-      const formData = new FormData();
-      Array.from(files).forEach(file => {
-        formData.append('files', file);
-      });
-      
-      const response = await apiRequest('POST', '/api/files/upload', formData);
-      return response.json();
-    },
-    onSuccess: (data) => {
-      toast({
-        title: "Upload successful",
-        description: `${data.files.length} file(s) uploaded and processing started`,
-      });
-      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Upload failed",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
+  const { data: limits } = useQuery<UploadLimits>({
+    queryKey: ['/api/uploads/limits'],
+    staleTime: Infinity,
   });
+  const maxFileSize = limits?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
 
-  const handleFiles = useCallback((files: FileList) => {
-    if (files.length === 0) return;
+  const handleFiles = useCallback((fileList: FileList) => {
+    if (fileList.length === 0) return;
+    const files = Array.from(fileList);
     
-    // Validate file size (50MB limit)
-    const maxSize = 50 * 1024 * 1024;
-    const oversizedFiles = Array.from(files).filter(file => file.size > maxSize);
+    // Validate file size against the server's configured limit
+    const oversizedFiles = files.filter(file => file.size > maxFileSize);
     
     if (oversizedFiles.length > 0) {
       toast({
         title: "File too large",
-        description: `Files must be smaller than 50MB`,
+        description: `Files must be smaller than ${formatFileSize(maxFileSize)}`,
         variant: "destructive",
       });
       return;
     }
     
-    uploadMutation.mutate(files);
-  }, [uploadMutation, toast]);
+    // Each file uploads on its own with its own progress, cancel button and errors
+    startUploads(files);
+  }, [toast, maxFileSize]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -62,6 +98,8 @@ export default function FileUpload() {
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       handleFiles(e.target.files);
+      // Allow picking the same file again after a cancel or failure
+      e.target.value = '';
     }
   }, [handleFiles]);
 
@@ -92,7 +130,7 @@ export default function FileUpload() {
           </div>
           <div>
             <p className="text-slate-900 font-medium">
-              {uploadMutation.isPending ? 'Uploading...' : 'Drop files here or click to browse'}
+              Drop files here or click to browse
             </p>
             <p className="text-sm text-slate-500 mt-1">
               Supports AutoCAD files (.dwg, .dxf, .dwt) and other formats
@@ -103,24 +141,36 @@ export default function FileUpload() {
             id="file-input"
             multiple
             className="hidden"
-            accept=".dwg,.dxf,.dwt,.pdf,.jpg,.jpeg,.png,.doc,.docx"
+            accept={ACCEPTED_EXTENSIONS}
             onChange={handleFileSelect}
-            disabled={uploadMutation.isPending}
           />
         </div>
       </div>
 
       <p className="text-xs text-slate-500 mt-3 flex items-center">
         <i className="fas fa-info-circle mr-1"></i>
-        Maximum file size: 50MB per file
+        Maximum file size: {formatFileSize(maxFileSize)} per file. Interrupted uploads resume automatically.
       </p>
 
+      {localOnly && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2 mt-3 flex items-start">
+          <i className="fas fa-exclamation-triangle mr-1 mt-0.5"></i>
+          Cloud translation is not configured on this server. DWG drawings show only their embedded preview; DXF, PDF, images and documents are unaffected.
+        </p>
+      )}
+
+      {uploads.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {uploads.map(upload => <UploadRow key={upload.key} upload={upload} />)}
+        </ul>
+      )}
+
       <div className="mt-6">
         <h3 className="text-sm font-medium text-slate-900 mb-3">Supported File Types</h3>
         <div className="grid grid-cols-2 gap-2">
           <div className="flex items-center space-x-2 p-2 bg-blue-50 rounded-lg">
             <i className="fas fa-drafting-compass text-blue-600"></i>
-            <span className="text-sm font-medium text-blue-700">AutoCAD (.dwg)</span>
+            <span className="text-sm font-medium text-blue-700">AutoCAD (.dwg){localOnly && ' · preview'}</span>
           </div>
           <div className="flex items-center space-x-2 p-2 bg-blue-50 rounded-lg">
             <i className="fas fa-vector-square text-blue-600"></i>
@@ -1,6 +1,31 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { formatFileSize, isCADFile } from "@/lib/file-utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCapabilities } from "@/hooks/use-capabilities";
+import DxfCanvas, { type DxfCanvasHandle } from "@/components/dxf-canvas";
+import LayerPanel, { type LayerInfo } from "@/components/layer-panel";
+import PDFViewer from "@/components/pdf-viewer";
 import type { File } from "@shared/schema";
+import { aciToHex, trueColorToHex } from "@shared/aci-colors";
+import type { Drawing } from "@shared/drawing";
+import {
+  OUTPUT_FORMATS,
+  OUTPUT_FORMAT_LABELS,
+  type OutputFormat,
+  type TranslationMessage,
+  type TranslationSummary,
+  type Viewable
+} from "@shared/derivatives";
+
+interface ViewerToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Ask for a new viewer token this long before the current one expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
 
 interface FileViewerProps {
   file?: File;
@@ -8,6 +33,7 @@ interface FileViewerProps {
 
 export default function FileViewer({ file }: FileViewerProps) {
   const [viewerReady, setViewerReady] = useState(false);
+  const capabilities = useCapabilities();
 
   useEffect(() => {
     if (file && file.fileType === 'autocad') {
@@ -33,6 +59,8 @@ export default function FileViewer({ file }: FileViewerProps) {
   }
 
   const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+  // Translated drawings cannot be opened once the server has no APS credentials
+  const previewOnly = metadata.viewerType === 'standard' || (metadata.viewerType === 'aps' && capabilities?.aps === false);
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -68,12 +96,16 @@ export default function FileViewer({ file }: FileViewerProps) {
 
       {/* Viewer Content */}
       <div className="relative" style={{ height: '600px' }}>
-        {file.fileType === 'autocad' ? (
+        {file.fileType === 'autocad' && previewOnly ? (
+          <DrawingPreviewViewer file={file} />
+        ) : file.fileType === 'autocad' ? (
           <AutoCADViewer file={file} ready={viewerReady} />
         ) : file.fileType === 'pdf' ? (
           <PDFViewer file={file} />
         ) : file.fileType === 'image' ? (
           <ImageViewer file={file} />
+        ) : file.fileType === 'document' ? (
+          <DocumentViewer file={file} />
         ) : (
           <DefaultViewer file={file} />
         )}
@@ -101,20 +133,178 @@ export default function FileViewer({ file }: FileViewerProps) {
             </span>
           </div>
         </div>
+        {metadata.translation?.messages.length > 0 && (
+          <TranslationMessages messages={metadata.translation.messages} />
+        )}
+        {metadata.viewerType === 'aps' && metadata.urn && capabilities?.aps && file.status === 'ready' && (
+          <DerivativesPanel file={file} />
+        )}
       </div>
     </div>
   );
 }
 
+interface DerivativesResponse {
+  formats: OutputFormat[];
+  translation: TranslationSummary;
+}
+
+const MESSAGE_STYLES: Record<TranslationMessage['type'], string> = {
+  error: 'fas fa-times-circle text-red-600',
+  warning: 'fas fa-exclamation-triangle text-amber-600',
+  info: 'fas fa-info-circle text-slate-500',
+};
+
+// Errors and warnings APS reported while translating, such as missing xrefs or fonts
+function TranslationMessages({ messages }: { messages: TranslationMessage[] }) {
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200 text-sm">
+      <label className="block text-slate-500 font-medium mb-2">Translation messages</label>
+      <ul className="space-y-1">
+        {messages.map((message, index) => (
+          <li key={index} className="flex items-start space-x-2 text-xs">
+            <i className={`${MESSAGE_STYLES[message.type]} mt-0.5`}></i>
+            <span className="text-slate-900">
+              {message.message}
+              <span className="text-slate-500 ml-1">
+                ({message.code}{message.outputType ? `, ${OUTPUT_FORMAT_LABELS[message.outputType as OutputFormat] || message.outputType}` : ''})
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const DERIVATIVE_POLL_MS = 3000;
+
+// Outputs APS produced for a translated drawing, with downloads and a way to request more formats
+function DerivativesPanel({ file }: { file: File }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/files/${file.id}/derivatives`];
+
+  // Poll while APS is still producing an output
+  const { data, error } = useQuery<DerivativesResponse>({
+    queryKey,
+    refetchInterval: (query) =>
+      query.state.data?.translation.outputs.some(output => output.status === 'pending' || output.status === 'inprogress')
+        ? DERIVATIVE_POLL_MS
+        : false,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (format: OutputFormat) => {
+      const response = await apiRequest('POST', `/api/files/${file.id}/derivatives`, { formats: [format] });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Translation request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const labelFor = (outputType: string) => OUTPUT_FORMAT_LABELS[outputType as OutputFormat] || outputType;
+  const missing = OUTPUT_FORMATS.filter(format => !data?.formats.includes(format));
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200 text-sm">
+      <label className="block text-slate-500 font-medium mb-2">Derivatives</label>
+      {error ? (
+        <p className="text-xs text-red-600">Could not load derivatives: {(error as Error).message}</p>
+      ) : !data ? (
+        <p className="text-xs text-slate-500">Loading...</p>
+      ) : (
+        <div className="space-y-2">
+          {data.translation.outputs.map((output) => (
+            <div key={output.outputType} className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="text-slate-900">{labelFor(output.outputType)}</span>
+                <span className={`text-xs ${
+                  output.status === 'success' ? 'text-green-600' : output.status === 'failed' || output.status === 'timeout' ? 'text-red-600' : 'text-amber-600'
+                }`}>
+                  {output.status === 'success' ? 'ready' : output.status === 'inprogress' ? `${output.progress}%` : output.status}
+                </span>
+              </div>
+              <div className="flex items-center space-x-3">
+                {output.files.map((derivativeFile) => (
+                  <a
+                    key={derivativeFile.guid}
+                    href={`/api/files/${file.id}/derivatives/${derivativeFile.guid}`}
+                    download={derivativeFile.name}
+                    className="text-blue-600 hover:text-blue-700 text-xs font-medium"
+                  >
+                    <i className="fas fa-download mr-1"></i>{derivativeFile.name}
+                  </a>
+                ))}
+              </div>
+            </div>
+          ))}
+          {missing.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 pt-1">
+              <span className="text-xs text-slate-500">Also translate to:</span>
+              {missing.map((format) => (
+                <button
+                  key={format}
+                  className="px-2 py-0.5 rounded border border-slate-300 text-xs text-slate-700 hover:bg-slate-100"
+                  onClick={() => requestMutation.mutate(format)}
+                  disabled={requestMutation.isPending}
+                >
+                  + {OUTPUT_FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
   const [showLayers, setShowLayers] = useState(false);
   const [zoom, setZoom] = useState(100);
   const [viewerInitialized, setViewerInitialized] = useState(false);
-  const [apsToken, setApsToken] = useState<string | null>(null);
   const [currentViewer, setCurrentViewer] = useState<any>(null);
+  const [hiddenLayers, setHiddenLayers] = useState<Set<string>>(new Set());
+  const [apsLayers, setApsLayers] = useState<LayerInfo[]>([]);
+  // Set when APS no longer has the drawing's derivatives and the server is translating it again
+  const [derivativesExpired, setDerivativesExpired] = useState(false);
+  
+  const capabilities = useCapabilities();
+  const canvasRef = useRef<DxfCanvasHandle>(null);
+  const apsLayerNodes = useRef<Map<string, any>>(new Map());
+  const viewerToken = useRef<ViewerToken | null>(null);
+  // The loaded APS document, needed to switch between its sheets and views
+  const apsDocument = useRef<any>(null);
+  const [activeViewable, setActiveViewable] = useState<string | undefined>();
   
   const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+  const viewables: Viewable[] = metadata.translation?.viewables || [];
   const isApsFile = metadata.viewerType === 'aps' && metadata.urn;
+
+  const dxfLayers: LayerInfo[] = (metadata.layers || []).map((layer: any) => ({
+    name: layer.name,
+    color: layer.trueColor !== null ? trueColorToHex(layer.trueColor) : aciToHex(layer.color),
+    aci: layer.color,
+    linetype: layer.linetype,
+    on: layer.on,
+    frozen: layer.frozen,
+    locked: layer.locked,
+  }));
+  const layers = isApsFile ? apsLayers : dxfLayers;
+
+  const { data: drawing, error: drawingError } = useQuery<Drawing>({
+    queryKey: [`/api/files/${file.id}/drawing`],
+    enabled: metadata.viewerType === 'dxf',
+  });
   
   // Reset viewer when file changes
   useEffect(() => {
@@ -122,6 +312,8 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
       currentViewer.finish();
       setCurrentViewer(null);
       setViewerInitialized(false);
+      apsDocument.current = null;
+      setActiveViewable(undefined);
       
       // Clear the viewer container
       const htmlDiv = document.getElementById('aps-viewer');
@@ -130,26 +322,76 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
       }
     }
   }, [file.id]); // Reset when file changes
+
+  // Layers that are off or frozen in the drawing start out hidden
+  useEffect(() => {
+    setHiddenLayers(new Set(dxfLayers.filter(layer => !layer.on || layer.frozen).map(layer => layer.name)));
+    setApsLayers([]);
+    apsLayerNodes.current = new Map();
+    setDerivativesExpired(false);
+  }, [file.id]);
+
+  // Mirror layer visibility into the APS viewer once its layer tree is known
+  useEffect(() => {
+    if (!currentViewer) return;
+    apsLayerNodes.current.forEach((node, name) => {
+      currentViewer.setLayerVisible([node], !hiddenLayers.has(name));
+    });
+  }, [currentViewer, hiddenLayers, apsLayers]);
+
+  const toggleLayer = (name: string) => {
+    setHiddenLayers(previous => {
+      const next = new Set(previous);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const isolateLayer = (name: string) => {
+    setHiddenLayers(new Set(layers.map(layer => layer.name).filter(layerName => layerName !== name)));
+  };
+
+  const showAllLayers = () => {
+    setHiddenLayers(new Set());
+  };
   
   // Initialize APS Viewer for real AutoCAD files
   useEffect(() => {
-    if (isApsFile && ready && !viewerInitialized && !currentViewer) {
+    if (isApsFile && ready && !viewerInitialized && !currentViewer && !derivativesExpired) {
       initializeAPSViewer();
     }
-  }, [isApsFile, ready, viewerInitialized, currentViewer, file.id]);
+  }, [isApsFile, ready, viewerInitialized, currentViewer, derivativesExpired, file.id]);
+
+  // Read-only viewer tokens are cached until shortly before they expire
+  const getViewerToken = async (): Promise<ViewerToken> => {
+    const cached = viewerToken.current;
+    if (cached && cached.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) return cached;
+
+    const response = await apiRequest('GET', '/api/aps/token');
+    const { access_token, expires_in } = await response.json();
+    viewerToken.current = { token: access_token, expiresAt: Date.now() + expires_in * 1000 };
+    return viewerToken.current;
+  };
 
   const initializeAPSViewer = async () => {
     try {
-      // Get APS token
-      const tokenResponse = await fetch('/api/aps/token');
-      const tokenData = await tokenResponse.json();
-      setApsToken(tokenData.access_token);
+      // Derivatives can expire in APS; the server then queues a new translation instead of the viewer failing to load
+      const verifyResponse = await apiRequest('POST', `/api/files/${file.id}/derivatives/verify`);
+      const { available } = await verifyResponse.json();
+      if (!available) {
+        setDerivativesExpired(true);
+        return;
+      }
+
+      // Fetch a token up front so a missing or failing APS setup is reported before loading the SDK
+      await getViewerToken();
 
       // Load Autodesk Viewer SDK
       if (!(window as any).Autodesk) {
         const script = document.createElement('script');
         script.src = 'https://developer.api.autodesk.com/modelderivative/v2/viewers/7.*/viewer3D.min.js';
-        script.onload = () => initViewer(tokenData.access_token);
+        script.onload = () => initViewer();
         document.head.appendChild(script);
 
         const link = document.createElement('link');
@@ -157,19 +399,25 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
         link.href = 'https://developer.api.autodesk.com/modelderivative/v2/viewers/7.*/style.min.css';
         document.head.appendChild(link);
       } else {
-        initViewer(tokenData.access_token);
+        initViewer();
       }
     } catch (error) {
       console.error('Failed to initialize APS viewer:', error);
     }
   };
 
-  const initViewer = (token: string) => {
+  const initViewer = () => {
     const options = {
       env: 'AutodeskProduction',
       api: 'derivativeV2',
+      // The viewer calls this again when the lifetime it was given runs out, so long sessions keep working
       getAccessToken: (callback: (token: string, expire: number) => void) => {
-        callback(token, 3600);
+        getViewerToken()
+          .then(({ token, expiresAt }) => {
+            const lifetime = Math.floor((expiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS) / 1000);
+            callback(token, Math.max(lifetime, 1));
+          })
+          .catch((error) => console.error('Failed to refresh APS viewer token:', error));
       }
     };
 
@@ -192,9 +440,24 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
         const documentId = 'urn:' + metadata.urn;
         console.log('Loading document with URN:', documentId);
         
+        // Collect the drawing's layer tree for the layer panel
+        viewer.addEventListener((window as any).Autodesk.Viewing.GEOMETRY_LOADED_EVENT, () => {
+          const nodes: any[] = viewer.model?.getLayersRoot?.()?.children || [];
+          apsLayerNodes.current = new Map(nodes.map(node => [node.name, node]));
+          setApsLayers(nodes.map(node => ({
+            name: node.name,
+            color: null,
+            on: true,
+            frozen: false,
+            locked: false,
+          })));
+        });
+
         (window as any).Autodesk.Viewing.Document.load(documentId, (doc: any) => {
-          const viewables = doc.getRoot().getDefaultGeometry();
-          viewer.loadDocumentNode(doc, viewables);
+          const defaultGeometry = doc.getRoot().getDefaultGeometry();
+          apsDocument.current = doc;
+          setActiveViewable(defaultGeometry?.guid());
+          viewer.loadDocumentNode(doc, defaultGeometry);
           setViewerInitialized(true);
           console.log('Successfully loaded document:', file.originalName);
         }, (errorMsg: string) => {
@@ -204,6 +467,16 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
     });
   };
 
+  // Open another sheet, layout or 3D view of the drawing; its layers are collected again once it loads
+  const showViewable = (guid: string) => {
+    const node = apsDocument.current?.getRoot().findByGuid(guid);
+    if (!node || !currentViewer) return;
+    setApsLayers([]);
+    apsLayerNodes.current = new Map();
+    currentViewer.loadDocumentNode(apsDocument.current, node);
+    setActiveViewable(guid);
+  };
+
   const openInWebEditor = (urn: string) => {
     // Open AutoCAD Web Editor with the file
     const editorUrl = `https://web.autocad.com/edit?urn=${encodeURIComponent('urn:' + urn)}`;
@@ -229,6 +502,21 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
     );
   }
 
+  if (isApsFile && derivativesExpired) {
+    return (
+      <div className="w-full h-full bg-slate-900 flex items-center justify-center">
+        <div className="text-center max-w-sm">
+          <i className="fas fa-sync-alt text-amber-400 text-3xl mb-4 animate-spin"></i>
+          <h4 className="text-white font-semibold mb-2">Translating the drawing again</h4>
+          <p className="text-slate-300 text-sm">
+            Autodesk no longer has the translated version of {file.originalName}. It has been queued for a new
+            translation and can be opened from the file queue once it is ready.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (isApsFile) {
     // Real APS Viewer
     return (
@@ -251,22 +539,58 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
           </div>
         </div>
 
-        {/* AutoCAD Web Editor Button */}
+        {/* Layer Panel Toggle and AutoCAD Web Editor Button */}
         {viewerInitialized && metadata.urn && (
-          <div className="absolute top-4 right-4 z-10">
-            <button
-              onClick={() => openInWebEditor(metadata.urn)}
-              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors shadow-lg"
-              title="Open in AutoCAD Web Editor"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-              </svg>
-              Edit in AutoCAD Web
-            </button>
+          <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+            {viewables.length > 1 && (
+              <select
+                value={activeViewable}
+                onChange={(e) => showViewable(e.target.value)}
+                className="bg-white bg-opacity-90 text-slate-700 px-3 py-2 rounded-lg shadow-lg text-sm font-medium"
+                title="Sheet or view"
+              >
+                {viewables.map((viewable) => (
+                  <option key={viewable.guid} value={viewable.guid}>
+                    {viewable.name} ({viewable.role.toUpperCase()})
+                  </option>
+                ))}
+              </select>
+            )}
+            {apsLayers.length > 0 && (
+              <button 
+                onClick={() => setShowLayers(!showLayers)}
+                className="bg-white bg-opacity-90 hover:bg-opacity-100 text-slate-700 px-3 py-2 rounded-lg shadow-lg transition-all text-sm font-medium"
+              >
+                <i className="fas fa-layer-group mr-2"></i>
+                Layers
+              </button>
+            )}
+            {capabilities?.aps && (
+              <button
+                onClick={() => openInWebEditor(metadata.urn)}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors shadow-lg"
+                title="Open in AutoCAD Web Editor"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+                Edit in AutoCAD Web
+              </button>
+            )}
           </div>
         )}
 
+        {/* Layer Panel */}
+        {viewerInitialized && showLayers && (
+          <LayerPanel
+            layers={layers}
+            hiddenLayers={hiddenLayers}
+            onToggle={toggleLayer}
+            onIsolate={isolateLayer}
+            onShowAll={showAllLayers}
+          />
+        )}
+
         {!viewerInitialized && (
           <div className="absolute inset-0 bg-slate-900 bg-opacity-50 flex items-center justify-center">
             <div className="text-center text-white">
@@ -282,7 +606,29 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
     );
   }
 
-  // Fallback simulated viewer
+  // Failed, still processing, or translated without a URN: there is no drawing to load
+  if (metadata.viewerType !== 'dxf') {
+    const failed = file.status === 'error';
+    return (
+      <div className="w-full h-full bg-slate-900 flex items-center justify-center">
+        <div className="text-center max-w-sm">
+          <i className={`fas ${failed ? 'fa-exclamation-triangle text-red-400' : 'fa-hourglass-half text-slate-400'} text-3xl mb-4`}></i>
+          <h4 className="text-white font-semibold mb-2">
+            {failed ? 'Unable to open the drawing' : file.status === 'ready' ? 'No viewer for this drawing' : 'The drawing is still being processed'}
+          </h4>
+          <p className="text-slate-300 text-sm">
+            {failed
+              ? file.errorMessage || 'Processing failed.'
+              : file.status === 'ready'
+                ? `${file.originalName} has no viewable output. Download it to open it in AutoCAD.`
+                : 'It can be opened here once processing finishes.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Built-in DXF viewer
   return (
     <div className="w-full h-full bg-slate-900 relative overflow-hidden">
       {/* Main Drawing Canvas */}
@@ -296,25 +642,15 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
           backgroundSize: '20px 20px'
         }}></div>
         
-        {/* Simulated CAD Drawing */}
-        <div className="absolute inset-0 flex items-center justify-center">
-          <svg width="400" height="300" className="border border-gray-600 bg-slate-800 rounded">
-            {/* Sample CAD elements */}
-            <rect x="50" y="50" width="150" height="100" fill="none" stroke="#00ff00" strokeWidth="2"/>
-            <rect x="250" y="100" width="100" height="80" fill="none" stroke="#00ff00" strokeWidth="2"/>
-            <line x1="50" y1="50" x2="250" y2="100" stroke="#ffff00" strokeWidth="1"/>
-            <line x1="200" y1="50" x2="350" y2="100" stroke="#ffff00" strokeWidth="1"/>
-            <circle cx="125" cy="100" r="20" fill="none" stroke="#ff0000" strokeWidth="2"/>
-            <circle cx="300" cy="140" r="15" fill="none" stroke="#ff0000" strokeWidth="2"/>
-            <text x="60" y="40" fill="#ffffff" fontSize="10">PLAN VIEW</text>
-            <text x="260" y="90" fill="#ffffff" fontSize="10">DETAIL A</text>
-            
-            {/* Dimension lines */}
-            <line x1="50" y1="170" x2="200" y2="170" stroke="#cyan" strokeWidth="1"/>
-            <line x1="50" y1="165" x2="50" y2="175" stroke="#cyan" strokeWidth="1"/>
-            <line x1="200" y1="165" x2="200" y2="175" stroke="#cyan" strokeWidth="1"/>
-            <text x="115" y="185" fill="#cyan" fontSize="8">150.00</text>
-          </svg>
+        {/* Drawing Canvas */}
+        <div className="absolute inset-0">
+          {drawing ? (
+            <DxfCanvas ref={canvasRef} drawing={drawing} hiddenLayers={hiddenLayers} onZoomChange={setZoom} />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-slate-300 text-sm">
+              {drawingError ? `Unable to render drawing: ${drawingError.message}` : 'Loading drawing...'}
+            </div>
+          )}
         </div>
 
         {/* File Info Overlay */}
@@ -323,8 +659,11 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
             <span className="text-blue-400 font-semibold">{file.originalName}</span>
           </div>
           <div className="space-y-1 text-xs">
-            <div>Entities: {metadata.entities || 'Unknown'}</div>
-            <div>Blocks: {metadata.blocks || 'Unknown'}</div>
+            <div>Entities: {metadata.entities ?? 'Unknown'}</div>
+            {drawing?.truncated && (
+              <div className="text-amber-400">Too many nested blocks: only part of the drawing is shown</div>
+            )}
+            <div>Blocks: {metadata.blocks ? metadata.blocks.length : 'Unknown'}</div>
             <div>Units: {metadata.units || 'Unknown'}</div>
             <div>Zoom: {zoom}%</div>
           </div>
@@ -334,23 +673,23 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
       {/* Viewer Controls */}
       <div className="absolute bottom-4 left-4 flex items-center space-x-2">
         <button 
-          onClick={() => setZoom(Math.min(200, zoom + 25))}
+          onClick={() => canvasRef.current?.zoomIn()}
           className="bg-white bg-opacity-90 hover:bg-opacity-100 text-slate-700 p-2 rounded-lg shadow-lg transition-all"
           title="Zoom In"
         >
           <i className="fas fa-search-plus"></i>
         </button>
         <button 
-          onClick={() => setZoom(Math.max(25, zoom - 25))}
+          onClick={() => canvasRef.current?.zoomOut()}
           className="bg-white bg-opacity-90 hover:bg-opacity-100 text-slate-700 p-2 rounded-lg shadow-lg transition-all"
           title="Zoom Out"
         >
           <i className="fas fa-search-minus"></i>
         </button>
         <button 
-          onClick={() => setZoom(100)}
+          onClick={() => canvasRef.current?.zoomExtents()}
           className="bg-white bg-opacity-90 hover:bg-opacity-100 text-slate-700 p-2 rounded-lg shadow-lg transition-all"
-          title="Zoom to Fit"
+          title="Zoom to Extents"
         >
           <i className="fas fa-home"></i>
         </button>
@@ -374,22 +713,13 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
 
       {/* Layer Panel */}
       {showLayers && (
-        <div className="absolute top-16 right-4 bg-white rounded-lg shadow-xl p-4 w-64">
-          <h4 className="font-semibold mb-3">Drawing Layers</h4>
-          <div className="space-y-2">
-            {(metadata.layers || ['0', 'DIMENSION', 'TEXT']).map((layer: string, index: number) => (
-              <div key={layer} className="flex items-center space-x-2">
-                <input type="checkbox" defaultChecked className="rounded" />
-                <div className={`w-3 h-3 rounded ${
-                  index === 0 ? 'bg-green-500' : 
-                  index === 1 ? 'bg-yellow-500' : 
-                  index === 2 ? 'bg-red-500' : 'bg-blue-500'
-                }`}></div>
-                <span className="text-sm">{layer}</span>
-              </div>
-            ))}
-          </div>
-        </div>
+        <LayerPanel
+          layers={layers}
+          hiddenLayers={hiddenLayers}
+          onToggle={toggleLayer}
+          onIsolate={isolateLayer}
+          onShowAll={showAllLayers}
+        />
       )}
 
       {/* Status Bar */}
@@ -401,88 +731,101 @@ function AutoCADViewer({ file, ready }: { file: File; ready: boolean }) {
   );
 }
 
-function PDFViewer({ file }: { file: File }) {
-  return (
-    <div className="w-full h-full bg-gray-100 relative">
-      {/* PDF Viewer Header */}
-      <div className="absolute top-0 left-0 right-0 bg-red-600 text-white p-2 text-sm">
-        <div className="flex items-center justify-between">
-          <span>PDF Document - {file.originalName}</span>
-          <div className="flex space-x-2">
-            <button className="hover:bg-red-700 px-2 py-1 rounded">Print</button>
-            <button className="hover:bg-red-700 px-2 py-1 rounded">Download</button>
-          </div>
-        </div>
-      </div>
-      
-      {/* Simulated PDF Content */}
-      <div className="pt-10 h-full overflow-auto bg-gray-200 p-4">
-        <div className="max-w-2xl mx-auto bg-white shadow-lg">
-          <div className="p-8 min-h-96">
-            <div className="text-center mb-6">
-              <h1 className="text-2xl font-bold mb-2">Document Title</h1>
-              <p className="text-gray-600">Technical Drawing Specifications</p>
-            </div>
-            
-            <div className="space-y-4 text-justify">
-              <p className="text-sm leading-relaxed">
-                This document contains technical specifications and detailed drawings for the project. 
-                The content includes dimensional tolerances, material specifications, and assembly instructions.
-              </p>
-              
-              <div className="border-l-4 border-blue-500 pl-4 bg-blue-50 p-3">
-                <p className="text-sm font-semibold">Note:</p>
-                <p className="text-sm">All dimensions are in millimeters unless otherwise specified.</p>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4 mt-6">
-                <div className="bg-gray-100 p-4 rounded">
-                  <h3 className="font-semibold mb-2">Specifications</h3>
-                  <ul className="text-sm space-y-1">
-                    <li>• Material: Steel</li>
-                    <li>• Tolerance: ±0.1mm</li>
-                    <li>• Surface finish: Ra 3.2</li>
-                  </ul>
-                </div>
-                <div className="bg-gray-100 p-4 rounded">
-                  <h3 className="font-semibold mb-2">Revision History</h3>
-                  <ul className="text-sm space-y-1">
-                    <li>• Rev A: Initial release</li>
-                    <li>• Rev B: Updated dimensions</li>
-                    <li>• Rev C: Current version</li>
-                  </ul>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-      </div>
-      
-      {/* PDF Controls */}
-      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white shadow-lg rounded-lg p-2 flex items-center space-x-2">
-        <button className="p-2 hover:bg-gray-100 rounded">
-          <i className="fas fa-chevron-up"></i>
-        </button>
-        <span className="text-sm px-2">Page 1 of 1</span>
-        <button className="p-2 hover:bg-gray-100 rounded">
-          <i className="fas fa-chevron-down"></i>
-        </button>
-        <div className="border-l pl-2 ml-2">
-          <button className="p-2 hover:bg-gray-100 rounded">
-            <i className="fas fa-search-minus"></i>
-          </button>
-          <span className="text-sm px-2">100%</span>
-          <button className="p-2 hover:bg-gray-100 rounded">
-            <i className="fas fa-search-plus"></i>
-          </button>
-        </div>
-      </div>
-    </div>
-  );
+const IMAGE_ZOOM_STEP = 1.25;
+
+const EXIF_LABELS: Record<string, string> = {
+  Make: 'Camera make',
+  Model: 'Camera model',
+  LensModel: 'Lens',
+  Software: 'Software',
+  DateTimeOriginal: 'Taken',
+  ExposureTime: 'Exposure',
+  FNumber: 'Aperture',
+  ISO: 'ISO',
+  FocalLength: 'Focal length',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+};
+
+function formatExifValue(key: string, value: string | number) {
+  switch (key) {
+    case 'DateTimeOriginal':
+      return new Date(value).toLocaleString();
+    case 'ExposureTime':
+      return typeof value === 'number' && value < 1 ? `1/${Math.round(1 / value)} s` : `${value} s`;
+    case 'FNumber':
+      return `f/${value}`;
+    case 'FocalLength':
+      return `${value} mm`;
+    case 'latitude':
+    case 'longitude':
+      return typeof value === 'number' ? value.toFixed(6) : value;
+    default:
+      return String(value);
+  }
 }
 
 function ImageViewer({ file }: { file: File }) {
-  const [zoom, setZoom] = useState(100);
+  const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(
+    metadata.width && metadata.height ? { width: metadata.width, height: metadata.height } : null
+  );
+  const [scale, setScale] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [showInfo, setShowInfo] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+
+  const fitToScreen = () => {
+    const container = containerRef.current;
+    if (!container || !naturalSize) return;
+
+    const quarterTurn = rotation % 180 !== 0;
+    const width = quarterTurn ? naturalSize.height : naturalSize.width;
+    const height = quarterTurn ? naturalSize.width : naturalSize.height;
+    setScale(Math.min(container.clientWidth / width, container.clientHeight / height, 1) * 0.95);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  // Zoom around a point given relative to the container centre
+  const zoomAt = (factor: number, x = 0, y = 0) => {
+    setScale(previous => previous * factor);
+    setOffset(previous => ({ x: x - (x - previous.x) * factor, y: y - (y - previous.y) * factor }));
+  };
+
+  useEffect(() => {
+    setRotation(0);
+    setLoadError(false);
+    setNaturalSize(metadata.width && metadata.height ? { width: metadata.width, height: metadata.height } : null);
+  }, [file.id]);
+
+  useEffect(() => {
+    fitToScreen();
+  }, [file.id, naturalSize, rotation]);
+
+  // Wheel zoom needs a non-passive listener to prevent page scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(
+        e.deltaY < 0 ? IMAGE_ZOOM_STEP : 1 / IMAGE_ZOOM_STEP,
+        e.clientX - rect.left - rect.width / 2,
+        e.clientY - rect.top - rect.height / 2
+      );
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const exifEntries = Object.entries((metadata.exif || {}) as Record<string, string | number>)
+    .filter(([key]) => EXIF_LABELS[key]);
   
   return (
     <div className="w-full h-full bg-gray-900 relative">
@@ -491,69 +834,114 @@ function ImageViewer({ file }: { file: File }) {
         <div className="flex items-center justify-between">
           <span>Image Viewer - {file.originalName}</span>
           <div className="flex space-x-2">
-            <button className="hover:bg-purple-700 px-2 py-1 rounded">Fullscreen</button>
-            <button className="hover:bg-purple-700 px-2 py-1 rounded">Download</button>
+            <button
+              onClick={() => setShowInfo(!showInfo)}
+              className="hover:bg-purple-700 px-2 py-1 rounded"
+            >
+              Info
+            </button>
+            <button
+              onClick={() => containerRef.current?.parentElement?.requestFullscreen()}
+              className="hover:bg-purple-700 px-2 py-1 rounded"
+            >
+              Fullscreen
+            </button>
+            <button
+              onClick={() => window.open(`/api/files/${file.id}/download`, '_blank')}
+              className="hover:bg-purple-700 px-2 py-1 rounded"
+            >
+              Download
+            </button>
           </div>
         </div>
       </div>
       
       {/* Image Content */}
-      <div className="pt-10 h-full flex items-center justify-center p-4">
-        <div className="bg-white border border-gray-300 rounded-lg p-4 max-w-4xl shadow-lg">
-          {/* Simulated Image */}
-          <div className="relative">
-            <svg width="600" height="400" className="border border-gray-200 rounded">
-              {/* Simulated photograph/image content */}
-              <defs>
-                <linearGradient id="skyGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-                  <stop offset="0%" style={{stopColor: '#87CEEB', stopOpacity: 1}} />
-                  <stop offset="100%" style={{stopColor: '#98FB98', stopOpacity: 1}} />
-                </linearGradient>
-              </defs>
-              
-              {/* Sky background */}
-              <rect width="600" height="200" fill="url(#skyGradient)" />
-              
-              {/* Ground */}
-              <rect y="200" width="600" height="200" fill="#90EE90" />
-              
-              {/* Buildings/structures */}
-              <rect x="100" y="150" width="80" height="150" fill="#D3D3D3" />
-              <rect x="200" y="120" width="60" height="180" fill="#C0C0C0" />
-              <rect x="300" y="140" width="90" height="160" fill="#DCDCDC" />
-              
-              {/* Some geometric shapes */}
-              <circle cx="450" cy="100" r="30" fill="#FFD700" />
-              <polygon points="500,180 520,140 540,180" fill="#8B4513" />
-              
-              {/* Text overlay */}
-              <text x="20" y="380" fill="#333" fontSize="14" fontFamily="Arial">
-                Sample Image Content - {formatFileSize(file.size)}
-              </text>
-            </svg>
-            
-            {/* Image info overlay */}
-            <div className="absolute top-2 left-2 bg-black bg-opacity-60 text-white p-2 rounded text-xs">
-              <div>Dimensions: 600 × 400</div>
-              <div>Format: {file.mimeType}</div>
-              <div>Zoom: {zoom}%</div>
-            </div>
+      <div
+        ref={containerRef}
+        className="absolute inset-0 top-10 overflow-hidden cursor-grab active:cursor-grabbing select-none"
+        onMouseDown={(e) => {
+          e.preventDefault();
+          dragRef.current = { x: e.clientX, y: e.clientY };
+        }}
+        onMouseMove={(e) => {
+          if (!dragRef.current) return;
+          const dx = e.clientX - dragRef.current.x;
+          const dy = e.clientY - dragRef.current.y;
+          dragRef.current = { x: e.clientX, y: e.clientY };
+          setOffset(previous => ({ x: previous.x + dx, y: previous.y + dy }));
+        }}
+        onMouseUp={() => {
+          dragRef.current = null;
+        }}
+        onMouseLeave={() => {
+          dragRef.current = null;
+        }}
+      >
+        {loadError ? (
+          <div className="w-full h-full flex items-center justify-center text-slate-300 text-sm">
+            This image could not be displayed by the browser
           </div>
-        </div>
+        ) : (
+          <img
+            src={`/api/files/${file.id}/content`}
+            alt={file.originalName}
+            draggable={false}
+            onLoad={(e) => {
+              if (!naturalSize) {
+                setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+              }
+            }}
+            onError={() => setLoadError(true)}
+            className="absolute left-1/2 top-1/2 max-w-none"
+            style={{
+              width: naturalSize?.width,
+              height: naturalSize?.height,
+              transform: `translate(-50%, -50%) translate(${offset.x}px, ${offset.y}px) rotate(${rotation}deg) scale(${scale})`,
+              imageRendering: scale > 2 ? 'pixelated' : 'auto',
+            }}
+          />
+        )}
       </div>
+
+      {/* Image info overlay */}
+      <div className="absolute top-12 left-2 bg-black bg-opacity-60 text-white p-2 rounded text-xs z-10">
+        <div>Dimensions: {naturalSize ? `${naturalSize.width} × ${naturalSize.height}` : 'Unknown'}</div>
+        <div>Format: {metadata.format ? metadata.format.toUpperCase() : file.mimeType}</div>
+        <div>Zoom: {Math.round(scale * 100)}%</div>
+      </div>
+
+      {/* EXIF Panel */}
+      {showInfo && (
+        <div className="absolute top-12 right-2 bg-white rounded-lg shadow-xl p-4 w-64 text-sm z-10">
+          <h4 className="font-semibold mb-3">Image Details</h4>
+          {exifEntries.length === 0 ? (
+            <p className="text-slate-500">No EXIF data found</p>
+          ) : (
+            <dl className="space-y-1">
+              {exifEntries.map(([key, value]) => (
+                <div key={key} className="flex justify-between gap-2">
+                  <dt className="text-slate-500">{EXIF_LABELS[key]}</dt>
+                  <dd className="text-slate-900 text-right truncate">{formatExifValue(key, value)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
       
       {/* Image Controls */}
-      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white shadow-lg rounded-lg p-2 flex items-center space-x-2">
+      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white shadow-lg rounded-lg p-2 flex items-center space-x-2 z-10">
         <button 
-          onClick={() => setZoom(Math.max(25, zoom - 25))}
+          onClick={() => zoomAt(1 / IMAGE_ZOOM_STEP)}
           className="p-2 hover:bg-gray-100 rounded"
           title="Zoom Out"
         >
           <i className="fas fa-search-minus"></i>
         </button>
-        <span className="text-sm px-2">{zoom}%</span>
+        <span className="text-sm px-2">{Math.round(scale * 100)}%</span>
         <button 
-          onClick={() => setZoom(Math.min(200, zoom + 25))}
+          onClick={() => zoomAt(IMAGE_ZOOM_STEP)}
           className="p-2 hover:bg-gray-100 rounded"
           title="Zoom In"
         >
@@ -561,13 +949,27 @@ function ImageViewer({ file }: { file: File }) {
         </button>
         <div className="border-l pl-2 ml-2">
           <button 
-            onClick={() => setZoom(100)}
+            onClick={fitToScreen}
             className="p-2 hover:bg-gray-100 rounded"
             title="Fit to Screen"
           >
             <i className="fas fa-expand-arrows-alt"></i>
           </button>
-          <button className="p-2 hover:bg-gray-100 rounded" title="Rotate">
+          <button 
+            onClick={() => {
+              setScale(1);
+              setOffset({ x: 0, y: 0 });
+            }}
+            className="p-2 hover:bg-gray-100 rounded text-xs font-medium"
+            title="Actual Size"
+          >
+            1:1
+          </button>
+          <button
+            onClick={() => setRotation((rotation + 90) % 360)}
+            className="p-2 hover:bg-gray-100 rounded"
+            title="Rotate"
+          >
             <i className="fas fa-redo"></i>
           </button>
         </div>
@@ -576,6 +978,110 @@ function ImageViewer({ file }: { file: File }) {
   );
 }
 
+const DOCUMENT_FORMAT_LABELS: Record<string, string> = {
+  text: 'Plain Text',
+  rtf: 'Rich Text',
+  docx: 'Word Document',
+  doc: 'Word 97-2003 Document',
+};
+
+function DocumentViewer({ file }: { file: File }) {
+  const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+  const hasPreview = metadata.viewerType === 'document' && !!metadata.preview;
+  const isHtml = metadata.preview?.mimeType === 'text/html';
+
+  // Previews are fetched as text: DOCX HTML is sanitized on the server, plain text is escaped by React
+  const { data: preview, isLoading, error } = useQuery<string>({
+    queryKey: [`/api/files/${file.id}/preview`],
+    queryFn: async () => (await apiRequest('GET', `/api/files/${file.id}/preview`)).text(),
+    enabled: hasPreview,
+    staleTime: Infinity,
+  });
+
+  if (!hasPreview) {
+    return <DefaultViewer file={file} />;
+  }
+
+  return (
+    <div className="w-full h-full bg-slate-200 flex flex-col">
+      {/* Document Header */}
+      <div className="bg-slate-700 text-white p-2 text-sm flex items-center justify-between">
+        <span className="truncate">
+          {DOCUMENT_FORMAT_LABELS[metadata.format] || 'Document'} - {file.originalName}
+        </span>
+        <div className="flex items-center space-x-3 flex-shrink-0">
+          {metadata.wordCount !== null && (
+            <span className="text-slate-300">
+              {metadata.wordCount.toLocaleString()} words • ~{metadata.pageEstimate} {metadata.pageEstimate === 1 ? 'page' : 'pages'}
+            </span>
+          )}
+          <button
+            onClick={() => window.open(`/api/files/${file.id}/download`, '_blank')}
+            className="hover:bg-slate-600 px-2 py-1 rounded"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+
+      {/* Document Content */}
+      <div className="flex-1 overflow-auto p-6">
+        {metadata.truncated && (
+          <div className="max-w-4xl mx-auto mb-3 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded px-3 py-2">
+            This file is too large to preview in full. Download it to see the remaining content.
+          </div>
+        )}
+        <div className="max-w-4xl mx-auto bg-white shadow-md rounded min-h-full p-10">
+          {isLoading ? (
+            <div className="text-center text-slate-500 text-sm">
+              <i className="fas fa-spinner fa-spin mr-2"></i>
+              Loading preview...
+            </div>
+          ) : error ? (
+            <div className="text-center text-red-600 text-sm">Failed to load the document preview</div>
+          ) : isHtml ? (
+            <article
+              className="prose prose-slate max-w-none"
+              dangerouslySetInnerHTML={{ __html: preview || '' }}
+            />
+          ) : (
+            <pre className="whitespace-pre-wrap break-words font-mono text-sm text-slate-800">{preview}</pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Drawings that were not translated, e.g. DWG files on a server without APS, show their embedded preview
+function DrawingPreviewViewer({ file }: { file: File }) {
+  const capabilities = useCapabilities();
+  const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+
+  return (
+    <div className="w-full h-full bg-gray-100 flex items-center justify-center">
+      <div className="text-center max-w-md">
+        {metadata.thumbnail ? (
+          <img
+            src={`/api/files/${file.id}/thumbnail`}
+            alt={`Preview of ${file.originalName}`}
+            className="max-h-72 mx-auto mb-4 bg-white rounded border border-slate-200"
+          />
+        ) : (
+          <i className="fas fa-drafting-compass text-gray-600 text-4xl mb-4"></i>
+        )}
+        <h4 className="font-semibold mb-2">Drawing Preview</h4>
+        <p className="text-gray-600 text-sm mb-2">File: {file.originalName}</p>
+        <p className="text-gray-500 text-sm">
+          {capabilities?.mode === 'local-only'
+            ? 'Cloud translation is not available on this server, so only the preview embedded in the drawing can be shown. Download the file to open it in AutoCAD.'
+            : 'This drawing was processed without cloud translation, so only its embedded preview is available.'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
 function DefaultViewer({ file }: { file: File }) {
   return (
     <div className="w-full h-full bg-gray-100 flex items-center justify-center">
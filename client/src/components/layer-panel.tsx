@@ -0,0 +1,92 @@
+import { useState } from "react";
+
+export interface LayerInfo {
+  name: string;
+  color: string | null;
+  aci?: number;
+  linetype?: string;
+  on: boolean;
+  frozen: boolean;
+  locked: boolean;
+}
+
+interface LayerPanelProps {
+  layers: LayerInfo[];
+  hiddenLayers: Set<string>;
+  onToggle: (name: string) => void;
+  onIsolate: (name: string) => void;
+  onShowAll: () => void;
+}
+
+export default function LayerPanel({ layers, hiddenLayers, onToggle, onIsolate, onShowAll }: LayerPanelProps) {
+  const [search, setSearch] = useState('');
+
+  const filteredLayers = layers.filter(layer =>
+    layer.name.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  return (
+    <div className="absolute top-16 right-4 bg-white rounded-lg shadow-xl p-4 w-72 z-10">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold">Drawing Layers</h4>
+        <button
+          onClick={onShowAll}
+          className="text-xs font-medium text-blue-600 hover:text-blue-700"
+          title="Turn all layers on"
+        >
+          All On
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search layers..."
+        className="w-full mb-3 px-2 py-1 text-sm border border-slate-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+
+      {layers.length === 0 ? (
+        <p className="text-sm text-slate-500">No layers found in this drawing</p>
+      ) : (
+        <div className="space-y-1 max-h-72 overflow-y-auto">
+          {filteredLayers.map((layer) => (
+            <div key={layer.name} className="flex items-center space-x-2 py-1 group">
+              <input
+                type="checkbox"
+                checked={!hiddenLayers.has(layer.name)}
+                onChange={() => onToggle(layer.name)}
+                className="rounded"
+              />
+              <div
+                className="w-3 h-3 rounded border border-slate-300 flex-shrink-0"
+                style={{ backgroundColor: layer.color ?? 'transparent' }}
+                title={layer.aci !== undefined ? `ACI ${layer.aci}` : undefined}
+              ></div>
+              <span className={`text-sm flex-1 truncate ${hiddenLayers.has(layer.name) ? 'text-slate-400' : ''}`}>
+                {layer.name}
+              </span>
+              {layer.linetype && (
+                <span className="text-xs text-slate-400 truncate max-w-16" title={layer.linetype}>
+                  {layer.linetype}
+                </span>
+              )}
+              {layer.frozen && <i className="fas fa-snowflake text-xs text-sky-500" title="Frozen in drawing"></i>}
+              {layer.locked && <i className="fas fa-lock text-xs text-slate-500" title="Locked in drawing"></i>}
+              <button
+                onClick={() => onIsolate(layer.name)}
+                className="text-xs text-slate-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Isolate layer"
+              >
+                <i className="fas fa-crosshairs"></i>
+              </button>
+            </div>
+          ))}
+          {filteredLayers.length === 0 && (
+            <p className="text-sm text-slate-500">No layers match "{search}"</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
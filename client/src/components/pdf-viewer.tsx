@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getDocument, GlobalWorkerOptions, Util, type PDFDocumentProxy, type RenderTask } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import type { File } from "@shared/schema";
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+interface SearchMatch {
+  pageNumber: number;
+  itemIndex: number;
+  start: number;
+  length: number;
+}
+
+const PDF_ZOOM_STEP = 1.25;
+const THUMBNAIL_WIDTH = 96;
+const POINTS_TO_MM = 25.4 / 72;
+
+async function getTextItems(pdf: PDFDocumentProxy, pageNumber: number): Promise<TextItem[]> {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+  return content.items.filter((item): item is TextItem => 'str' in item);
+}
+
+function PdfPage({ pdf, pageNumber, scale, matches, activeMatch }: {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  matches: SearchMatch[];
+  activeMatch: SearchMatch | null;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [highlights, setHighlights] = useState<Array<{ left: number; top: number; width: number; height: number; active: boolean }>>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    (async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = page.getViewport({ scale });
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * dpr);
+      canvas.height = Math.floor(viewport.height * dpr);
+      setSize({ width: viewport.width, height: viewport.height });
+
+      renderTask = page.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: dpr !== 1 ? [dpr, 0, 0, dpr, 0, 0] : undefined,
+      });
+      await renderTask.promise.catch(() => undefined);
+
+      // Highlight whole-item proportions of each match on top of the rendered page
+      const items = matches.length > 0 ? await getTextItems(pdf, pageNumber) : [];
+      if (cancelled) return;
+      setHighlights(matches.map(match => {
+        const item = items[match.itemIndex];
+        const tx = Util.transform(viewport.transform, item.transform);
+        const fontHeight = Math.hypot(tx[2], tx[3]);
+        const itemWidth = item.width * viewport.scale;
+        const length = Math.max(item.str.length, 1);
+        return {
+          left: tx[4] + itemWidth * match.start / length,
+          top: tx[5] - fontHeight,
+          width: itemWidth * match.length / length,
+          height: fontHeight,
+          active: match === activeMatch,
+        };
+      }));
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, scale, matches, activeMatch]);
+
+  return (
+    <div className="relative bg-white shadow-lg mx-auto" style={{ width: size.width, height: size.height }}>
+      <canvas ref={canvasRef} style={{ width: size.width, height: size.height }} />
+      {highlights.map((highlight, i) => (
+        <div
+          key={i}
+          className={`absolute pointer-events-none ${highlight.active ? 'bg-orange-400/60' : 'bg-yellow-300/50'}`}
+          style={{ left: highlight.left, top: highlight.top, width: highlight.width, height: highlight.height }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function PdfThumbnail({ pdf, pageNumber, active, onClick }: {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  active: boolean;
+  onClick: () => void;
+}) {
+  const containerRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  // Only render thumbnails once they scroll into view
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(container);
+
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+
+    (async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise.catch(() => undefined);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNumber, visible]);
+
+  useEffect(() => {
+    if (active) containerRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  return (
+    <button
+      ref={containerRef}
+      onClick={onClick}
+      className={`block mx-auto mb-3 p-1 rounded ${active ? 'bg-red-500' : 'hover:bg-gray-400'}`}
+      title={`Page ${pageNumber}`}
+    >
+      <canvas ref={canvasRef} className="bg-white block" style={{ width: THUMBNAIL_WIDTH, minHeight: 40 }} />
+      <span className={`block text-xs mt-1 ${active ? 'text-white' : 'text-gray-700'}`}>{pageNumber}</span>
+    </button>
+  );
+}
+
+export default function PDFViewer({ file }: { file: File }) {
+  const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+  const pageAreaRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const fitWidth = async (document: PDFDocumentProxy | null = pdf) => {
+    const area = pageAreaRef.current;
+    if (!document || !area) return;
+    const page = await document.getPage(pageNumber);
+    setScale((area.clientWidth - 48) / page.getViewport({ scale: 1 }).width);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadingTask = getDocument(`/api/files/${file.id}/content`);
+
+    setPdf(null);
+    setLoadError(null);
+    setPageNumber(1);
+    setMatches([]);
+    setQuery('');
+    setSearchError(null);
+
+    loadingTask.promise.then((document) => {
+      if (cancelled) return;
+      setPdf(document);
+      fitWidth(document);
+    }).catch((error: Error) => {
+      if (!cancelled) setLoadError(error.message);
+    });
+
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [file.id]);
+
+  const runSearch = async () => {
+    if (!pdf) return;
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      setMatches([]);
+      return;
+    }
+
+    setSearching(true);
+    setSearchError(null);
+    const found: SearchMatch[] = [];
+    try {
+      for (let page = 1; page <= pdf.numPages; page++) {
+        const items = await getTextItems(pdf, page);
+        items.forEach((item, itemIndex) => {
+          const text = item.str.toLowerCase();
+          let start = text.indexOf(needle);
+          while (start !== -1) {
+            found.push({ pageNumber: page, itemIndex, start, length: needle.length });
+            start = text.indexOf(needle, start + needle.length);
+          }
+        });
+      }
+    } catch (error: any) {
+      setSearchError(`Search failed: ${error.message}`);
+      setMatches([]);
+      return;
+    } finally {
+      setSearching(false);
+    }
+    setMatches(found);
+    setActiveMatchIndex(0);
+    if (found.length > 0) setPageNumber(found[0].pageNumber);
+  };
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    setActiveMatchIndex(next);
+    setPageNumber(matches[next].pageNumber);
+  };
+
+  const pageCount = pdf?.numPages ?? metadata.pageCount ?? 0;
+  const pageSize = metadata.pages?.[pageNumber - 1];
+  const activeMatch = matches[activeMatchIndex] ?? null;
+  const pageMatches = useMemo(
+    () => matches.filter(match => match.pageNumber === pageNumber),
+    [matches, pageNumber]
+  );
+
+  return (
+    <div className="w-full h-full bg-gray-100 relative">
+      {/* PDF Viewer Header */}
+      <div className="absolute top-0 left-0 right-0 bg-red-600 text-white p-2 text-sm z-10">
+        <div className="flex items-center justify-between gap-4">
+          <span className="truncate">PDF Document - {metadata.info?.Title || file.originalName}</span>
+          <div className="flex items-center space-x-2">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                runSearch();
+              }}
+              className="flex items-center"
+            >
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search text..."
+                className="px-2 py-1 rounded text-slate-900 text-sm w-40"
+              />
+            </form>
+            {searching ? (
+              <span className="text-xs">Searching...</span>
+            ) : searchError ? (
+              <span className="text-xs truncate max-w-[12rem]" title={searchError}>{searchError}</span>
+            ) : matches.length > 0 ? (
+              <>
+                <button onClick={() => goToMatch(activeMatchIndex - 1)} className="hover:bg-red-700 px-1 rounded" title="Previous match">
+                  <i className="fas fa-chevron-up"></i>
+                </button>
+                <span className="text-xs">{activeMatchIndex + 1} of {matches.length}</span>
+                <button onClick={() => goToMatch(activeMatchIndex + 1)} className="hover:bg-red-700 px-1 rounded" title="Next match">
+                  <i className="fas fa-chevron-down"></i>
+                </button>
+              </>
+            ) : null}
+            <button
+              onClick={() => window.open(`/api/files/${file.id}/content`, '_blank')}
+              className="hover:bg-red-700 px-2 py-1 rounded"
+            >
+              Print
+            </button>
+            <button
+              onClick={() => window.open(`/api/files/${file.id}/download`, '_blank')}
+              className="hover:bg-red-700 px-2 py-1 rounded"
+            >
+              Download
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="absolute inset-0 top-10 flex">
+        {/* Page Thumbnails */}
+        <div className="w-32 flex-shrink-0 overflow-y-auto bg-gray-300 py-3">
+          {pdf && Array.from({ length: pdf.numPages }, (_, i) => (
+            <PdfThumbnail
+              key={i + 1}
+              pdf={pdf}
+              pageNumber={i + 1}
+              active={pageNumber === i + 1}
+              onClick={() => setPageNumber(i + 1)}
+            />
+          ))}
+        </div>
+
+        {/* Page Content */}
+        <div ref={pageAreaRef} className="flex-1 overflow-auto bg-gray-200 p-6 pb-20">
+          {loadError ? (
+            <div className="h-full flex items-center justify-center text-gray-600 text-sm">
+              Unable to display this PDF: {loadError}
+            </div>
+          ) : pdf ? (
+            <PdfPage
+              pdf={pdf}
+              pageNumber={pageNumber}
+              scale={scale}
+              matches={pageMatches}
+              activeMatch={activeMatch}
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-gray-600 text-sm">
+              Loading document...
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* PDF Controls */}
+      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white shadow-lg rounded-lg p-2 flex items-center space-x-2 z-10">
+        <button
+          onClick={() => setPageNumber(Math.max(1, pageNumber - 1))}
+          disabled={pageNumber <= 1}
+          className="p-2 hover:bg-gray-100 rounded disabled:opacity-40"
+          title="Previous Page"
+        >
+          <i className="fas fa-chevron-up"></i>
+        </button>
+        <span className="text-sm px-2">Page {pageNumber} of {pageCount}</span>
+        <button
+          onClick={() => setPageNumber(Math.min(pageCount, pageNumber + 1))}
+          disabled={pageNumber >= pageCount}
+          className="p-2 hover:bg-gray-100 rounded disabled:opacity-40"
+          title="Next Page"
+        >
+          <i className="fas fa-chevron-down"></i>
+        </button>
+        <div className="border-l pl-2 ml-2 flex items-center">
+          <button
+            onClick={() => setScale(scale / PDF_ZOOM_STEP)}
+            className="p-2 hover:bg-gray-100 rounded"
+            title="Zoom Out"
+          >
+            <i className="fas fa-search-minus"></i>
+          </button>
+          <span className="text-sm px-2">{Math.round(scale * 100)}%</span>
+          <button
+            onClick={() => setScale(scale * PDF_ZOOM_STEP)}
+            className="p-2 hover:bg-gray-100 rounded"
+            title="Zoom In"
+          >
+            <i className="fas fa-search-plus"></i>
+          </button>
+          <button
+            onClick={() => fitWidth()}
+            className="p-2 hover:bg-gray-100 rounded"
+            title="Fit Width"
+          >
+            <i className="fas fa-arrows-alt-h"></i>
+          </button>
+        </div>
+        {pageSize && (
+          <span className="border-l pl-3 ml-2 text-xs text-gray-500">
+            {Math.round(pageSize.width * POINTS_TO_MM)} × {Math.round(pageSize.height * POINTS_TO_MM)} mm
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Capabilities } from "@shared/capabilities";
+
+// What this server can process and display; undefined until loaded
+export function useCapabilities() {
+  const { data } = useQuery<Capabilities>({
+    queryKey: ['/api/capabilities'],
+    staleTime: Infinity,
+  });
+  return data;
+}
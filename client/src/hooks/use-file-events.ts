@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { File } from "@shared/schema";
+import { FILE_EVENTS_PATH, type FileEvent } from "@shared/events";
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+function applyFileEvent(queryClient: QueryClient, event: FileEvent) {
+  queryClient.setQueryData<File[]>(['/api/files'], (files) => {
+    if (!files) return files;
+
+    switch (event.type) {
+      case 'file.created':
+      case 'file.restored':
+        return files.some(file => file.id === event.file.id)
+          ? files.map(file => file.id === event.file.id ? event.file : file)
+          : [event.file, ...files];
+      case 'file.trashed':
+        return files.filter(file => file.id !== event.file.id);
+      case 'file.deleted':
+        return files.filter(file => file.id !== event.id);
+      default:
+        return files.map(file => file.id === event.file.id ? event.file : file);
+    }
+  });
+
+  // The trash lists only a few files and needs its retention info, so it is simply refetched
+  if (event.type === 'file.trashed' || event.type === 'file.restored' || event.type === 'file.deleted') {
+    queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+  }
+
+  if (event.type === 'file.deleted') {
+    queryClient.removeQueries({ queryKey: [`/api/files/${event.id}`] });
+  } else {
+    queryClient.setQueryData([`/api/files/${event.file.id}`], event.file);
+  }
+}
+
+// Keep the file queries up to date from the server's event socket.
+// Returns whether the socket is connected so callers can fall back to polling while it is not.
+export function useFileEvents() {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = RECONNECT_MIN_MS;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}${FILE_EVENTS_PATH}`);
+
+      socket.onopen = () => {
+        reconnectDelay = RECONNECT_MIN_MS;
+        setConnected(true);
+        // Events sent while we were disconnected are lost, so resync once
+        queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+      };
+
+      socket.onmessage = (message) => {
+        applyFileEvent(queryClient, JSON.parse(message.data) as FileEvent);
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [queryClient]);
+
+  return connected;
+}
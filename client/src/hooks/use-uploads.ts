@@ -0,0 +1,108 @@
+import { useSyncExternalStore } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { uploadFileInChunks } from "@/lib/chunked-upload";
+
+// How many files upload at the same time; the rest wait their turn
+const PARALLEL_UPLOADS = 3;
+
+export type UploadStatus = 'pending' | 'uploading' | 'done' | 'error' | 'cancelled';
+
+export interface Upload {
+  key: string;
+  name: string;
+  size: number;
+  loaded: number;
+  status: UploadStatus;
+  error?: string;
+  // Set once the server has created the file record
+  fileId?: number;
+}
+
+// Uploads live outside React so they keep going, and stay cancellable, wherever they are shown
+let uploads: Upload[] = [];
+const listeners = new Set<() => void>();
+const files = new Map<string, File>();
+const controllers = new Map<string, AbortController>();
+let count = 0;
+
+function update(key: string, changes: Partial<Upload>) {
+  uploads = uploads.map(upload => upload.key === key ? { ...upload, ...changes } : upload);
+  listeners.forEach(listener => listener());
+}
+
+function pump() {
+  const active = uploads.filter(upload => upload.status === 'uploading').length;
+  uploads
+    .filter(upload => upload.status === 'pending')
+    .slice(0, Math.max(0, PARALLEL_UPLOADS - active))
+    .forEach(upload => run(upload.key));
+}
+
+async function run(key: string) {
+  const file = files.get(key)!;
+  const controller = new AbortController();
+  controllers.set(key, controller);
+  update(key, { status: 'uploading' });
+
+  try {
+    const record = await uploadFileInChunks(file, {
+      signal: controller.signal,
+      onStart: (record) => {
+        update(key, { fileId: record.id });
+        // Show the file in the queue while its bytes are still on the way
+        queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      },
+      onProgress: (fraction) => update(key, { loaded: Math.round(fraction * file.size) }),
+    });
+    update(key, { status: 'done', loaded: file.size, fileId: record.id });
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      update(key, { status: 'cancelled' });
+    } else {
+      update(key, { status: 'error', error: error.message });
+    }
+  } finally {
+    controllers.delete(key);
+    files.delete(key);
+    queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+    pump();
+  }
+}
+
+export function startUploads(selected: File[]) {
+  const added = selected.map((file): Upload => {
+    const key = `upload-${++count}`;
+    files.set(key, file);
+    return { key, name: file.name, size: file.size, loaded: 0, status: 'pending' };
+  });
+  uploads = [...uploads, ...added];
+  listeners.forEach(listener => listener());
+  pump();
+}
+
+export function cancelUpload(key: string) {
+  const controller = controllers.get(key);
+  if (controller) {
+    controller.abort();
+  } else if (files.delete(key)) {
+    // Still waiting for a free slot
+    update(key, { status: 'cancelled' });
+  }
+}
+
+export function dismissUpload(key: string) {
+  if (controllers.has(key) || files.has(key)) return;
+  uploads = uploads.filter(upload => upload.key !== key);
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useUploads() {
+  return useSyncExternalStore(subscribe, () => uploads);
+}
@@ -0,0 +1,204 @@
+import type { File as FileRecord } from "@shared/schema";
+import { sha256 } from "@/lib/sha256";
+
+export interface UploadLimits {
+  maxFileSize: number;
+  chunkSize: number;
+}
+
+interface UploadSession {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  received: number[];
+  // Created when the upload starts so the file shows in the queue straight away
+  file?: FileRecord;
+}
+
+export interface ChunkedUploadOptions {
+  // Called once the server has created the file record
+  onStart?: (file: FileRecord) => void;
+  // Called with the fraction of bytes sent, from 0 to 1
+  onProgress?: (progress: number) => void;
+  // Aborting cancels the upload on the server as well
+  signal?: AbortSignal;
+}
+
+export class UploadRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'UploadRequestError';
+    this.status = status;
+  }
+}
+
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+// Upload ids are remembered per file so a reload or a dropped connection can pick up where it stopped
+function resumeKey(file: File) {
+  return `upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function request<T>(method: string, url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, { ...init, method, credentials: "include" });
+  if (!res.ok) {
+    let message = res.statusText;
+    try {
+      message = (await res.json()).message || message;
+    } catch {
+      // Not a JSON error body
+    }
+    throw new UploadRequestError(res.status, message);
+  }
+  return res.json();
+}
+
+// Network failures, timeouts and server errors are worth retrying; other client errors are not
+function isRetryable(error: unknown) {
+  if (error instanceof UploadRequestError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return error instanceof TypeError;
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    // Retry at once when the browser reports the network is back
+    window.addEventListener('online', done);
+    signal?.addEventListener('abort', done);
+
+    function done() {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      signal?.removeEventListener('abort', done);
+      if (signal?.aborted) reject(signal.reason);
+      else resolve();
+    }
+  });
+}
+
+async function withRetry<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  let delay = RETRY_MIN_MS;
+  for (;;) {
+    signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error)) throw error;
+      await wait(delay, signal);
+      delay = Math.min(delay * 2, RETRY_MAX_MS);
+    }
+  }
+}
+
+// Chunks go through XMLHttpRequest because fetch cannot report upload progress
+function putChunk(url: string, body: ArrayBuffer, checksum: string, onSent: (bytes: number) => void, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open('PUT', url);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.setRequestHeader("X-Chunk-Checksum", checksum);
+
+    xhr.upload.onprogress = (event) => onSent(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) return resolve();
+      let message = xhr.statusText;
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new UploadRequestError(xhr.status, message));
+    };
+    xhr.onerror = () => reject(new TypeError('Network error while uploading'));
+    xhr.onabort = () => reject(signal?.reason ?? new DOMException('Upload cancelled', 'AbortError'));
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.send(body);
+  });
+}
+
+async function sha256Hex(data: ArrayBuffer) {
+  // crypto.subtle only exists in secure contexts, so a page served over plain HTTP hashes in JavaScript
+  const digest = globalThis.crypto?.subtle ? new Uint8Array(await crypto.subtle.digest('SHA-256', data)) : sha256(data);
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function openSession(file: File, signal?: AbortSignal): Promise<UploadSession> {
+  const savedId = localStorage.getItem(resumeKey(file));
+  if (savedId) {
+    try {
+      return await withRetry(() => request<UploadSession>('GET', `/api/uploads/${savedId}`, { signal }), signal);
+    } catch (error) {
+      // The session expired or was completed elsewhere; start over
+      if (!(error instanceof UploadRequestError && error.status === 404)) throw error;
+    }
+  }
+
+  const session = await withRetry(() => request<UploadSession>('POST', '/api/uploads', {
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: file.name, size: file.size, mimeType: file.type }),
+    signal,
+  }), signal);
+  localStorage.setItem(resumeKey(file), session.uploadId);
+  return session;
+}
+
+// Upload a file in checksummed chunks, resuming after network loss, and return the created file record
+export async function uploadFileInChunks(
+  file: File,
+  { onStart, onProgress, signal }: ChunkedUploadOptions = {}
+): Promise<FileRecord> {
+  const session = await openSession(file, signal);
+  if (session.file) onStart?.(session.file);
+
+  try {
+    const received = new Set(session.received);
+    const chunkBytes = (index: number) => Math.min(session.chunkSize, file.size - index * session.chunkSize);
+
+    let uploadedBytes = session.received.reduce((total, index) => total + chunkBytes(index), 0);
+    onProgress?.(file.size ? uploadedBytes / file.size : 0);
+
+    for (let index = 0; index < session.totalChunks; index++) {
+      if (received.has(index)) continue;
+
+      const start = index * session.chunkSize;
+      const chunk = await file.slice(start, start + session.chunkSize).arrayBuffer();
+      const checksum = await sha256Hex(chunk);
+
+      await withRetry(() => putChunk(
+        `/api/uploads/${session.uploadId}/parts/${index}`,
+        chunk,
+        checksum,
+        (sent) => onProgress?.((uploadedBytes + sent) / file.size),
+        signal
+      ), signal);
+
+      uploadedBytes += chunk.byteLength;
+      onProgress?.(uploadedBytes / file.size);
+    }
+
+    const { file: record } = await withRetry(
+      () => request<{ file: FileRecord }>('POST', `/api/uploads/${session.uploadId}/complete`, { signal }),
+      signal
+    );
+    localStorage.removeItem(resumeKey(file));
+    onProgress?.(1);
+    return record;
+  } catch (error) {
+    if (signal?.aborted) {
+      // A cancelled upload is discarded rather than left to resume
+      localStorage.removeItem(resumeKey(file));
+      fetch(`/api/uploads/${session.uploadId}`, { method: 'DELETE', credentials: "include" }).catch(() => undefined);
+    }
+    throw error;
+  }
+}
@@ -34,6 +34,8 @@ export const getStatusColor = (status: string) => {
   switch (status) {
     case "uploading":
       return "text-blue-600";
+    case "queued":
+      return "text-slate-600";
     case "processing":
       return "text-amber-600";
     case "ready":
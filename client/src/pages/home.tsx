@@ -1,22 +1,33 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import Header from "@/components/header";
 import FileUpload from "@/components/file-upload";
 import FileQueue from "@/components/file-queue";
+import FileTrash from "@/components/file-trash";
 import FileViewer from "@/components/file-viewer";
+import { useFileEvents } from "@/hooks/use-file-events";
 import type { File } from "@shared/schema";
 
 export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | undefined>();
+  const liveUpdates = useFileEvents();
 
+  // File changes arrive over the event socket; poll only while it is disconnected
   const { data: files = [] } = useQuery<File[]>({
     queryKey: ['/api/files'],
-    refetchInterval: 5000,
+    refetchInterval: liveUpdates ? false : 5000,
   });
 
+  // Close the viewer when the selected file is moved to the trash or deleted
+  useEffect(() => {
+    if (selectedFile && !files.some(file => file.id === selectedFile.id)) {
+      setSelectedFile(undefined);
+    }
+  }, [files, selectedFile]);
+
   // Calculate stats
   const activeFiles = files.filter(f => f.status === 'ready').length;
-  const processingFiles = files.filter(f => f.status === 'processing' || f.status === 'uploading').length;
+  const processingFiles = files.filter(f => f.status === 'processing' || f.status === 'queued' || f.status === 'uploading').length;
   const completedFiles = files.filter(f => f.status === 'ready').length;
 
   return (
@@ -31,7 +42,9 @@ export default function Home() {
             <FileQueue 
               onFileSelect={setSelectedFile} 
               selectedFileId={selectedFile?.id}
+              liveUpdates={liveUpdates}
             />
+            <FileTrash />
           </div>
           
           {/* Viewer Section */}
@@ -0,0 +1,14 @@
+CREATE TABLE "files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"file_path" text NOT NULL,
+	"file_type" text NOT NULL,
+	"status" text DEFAULT 'uploading' NOT NULL,
+	"error_message" text,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL,
+	"processed_at" timestamp,
+	"metadata" text
+);
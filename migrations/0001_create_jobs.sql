@@ -0,0 +1,16 @@
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_file_id_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."files"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_claim_idx" ON "jobs" USING btree ("type","status","run_at");--> statement-breakpoint
+CREATE INDEX "jobs_file_idx" ON "jobs" USING btree ("file_id");
\ No newline at end of file
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import type { File } from '@shared/schema';
+
+// How translated drawings are spread over OSS buckets:
+// 'single' keeps every file in one bucket, 'per-project' uses one bucket per APS_PROJECT so several
+// deployments can share credentials, and 'per-file' creates a bucket for each upload
+export type BucketStrategy = 'single' | 'per-project' | 'per-file';
+
+// OSS retention: transient objects last 24 hours, temporary ones 30 days, persistent ones until deleted
+export type BucketPolicy = 'transient' | 'temporary' | 'persistent';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLICY_RETENTION_MS: Record<BucketPolicy, number | null> = {
+  transient: DAY_MS,
+  temporary: 30 * DAY_MS,
+  persistent: null,
+};
+
+function readSetting<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+  if ((allowed as readonly string[]).includes(value)) return value as T;
+  console.warn(`${name} must be one of ${allowed.join(', ')}; using '${fallback}'`);
+  return fallback;
+}
+
+export const BUCKET_STRATEGY = readSetting<BucketStrategy>('APS_BUCKET_STRATEGY', ['single', 'per-project', 'per-file'], 'single');
+export const BUCKET_POLICY = readSetting<BucketPolicy>('APS_BUCKET_POLICY', ['transient', 'temporary', 'persistent'], 'persistent');
+
+// Bucket keys are global across all APS applications and may only use lowercase letters, digits, '-', '_' and '.'
+function toBucketKeyPart(text: string): string {
+  return text.toLowerCase().replace(/[^-_.a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Derived from the client id so two apps never pick the same key
+function bucketPrefix(): string {
+  if (process.env.APS_BUCKET_PREFIX) return toBucketKeyPart(process.env.APS_BUCKET_PREFIX);
+  const clientHash = crypto.createHash('sha256').update(process.env.APS_CLIENT_ID || '').digest('hex').slice(0, 10);
+  return `autocad-viewer-${clientHash}`;
+}
+
+export interface BucketAssignment {
+  bucketKey: string;
+  objectKey: string;
+  policy: BucketPolicy;
+  // Shared buckets hold other files too and are never deleted along with one of them
+  shared: boolean;
+}
+
+// Object keys go into OSS URL paths unencoded, so the user's file name is cut down to characters that are
+// safe there; the extension is kept because Model Derivative picks the translator by it
+function toObjectKeyPart(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]+/g, '_');
+}
+
+export function assignBucket(file: File): BucketAssignment {
+  // The stored filename is unique, so objects of different files never collide in a shared bucket
+  const objectKey = `${file.filename}-${toObjectKeyPart(file.originalName)}`;
+
+  switch (BUCKET_STRATEGY) {
+    case 'per-file':
+      return { bucketKey: `${bucketPrefix()}-${Date.now()}`, objectKey, policy: BUCKET_POLICY, shared: false };
+    case 'per-project': {
+      const project = toBucketKeyPart(process.env.APS_PROJECT || process.env.REPL_SLUG || 'default');
+      return { bucketKey: `${bucketPrefix()}-${project}`, objectKey, policy: BUCKET_POLICY, shared: true };
+    }
+    default:
+      return {
+        bucketKey: process.env.APS_BUCKET_KEY ? toBucketKeyPart(process.env.APS_BUCKET_KEY) : bucketPrefix(),
+        objectKey,
+        policy: BUCKET_POLICY,
+        shared: true,
+      };
+  }
+}
+
+// When OSS removes an object uploaded now under the given policy, or null if it is kept
+export function objectExpiresAt(policy: BucketPolicy, uploadedAt = Date.now()): string | null {
+  const retention = POLICY_RETENTION_MS[policy];
+  return retention === null ? null : new Date(uploadedAt + retention).toISOString();
+}
+
+// Records from before bucket strategies had a temporary bucket of their own
+export function ownsBucket(metadata: Record<string, any>): boolean {
+  return !!metadata.bucketKey && metadata.bucketShared !== true;
+}
@@ -0,0 +1,136 @@
+import {
+  OUTPUT_FORMATS,
+  type DerivativeFile,
+  type DerivativeOutput,
+  type DerivativeStatus,
+  type OutputFormat,
+  type TranslationMessage,
+  type TranslationSummary,
+  type Viewable
+} from '@shared/derivatives';
+import type { APSManifest, APSManifestDerivative, APSManifestMessage, APSManifestNode } from './aps-service';
+
+// Outputs requested for every drawing, e.g. APS_OUTPUT_FORMATS=svf2,thumbnail,pdf
+const configuredFormats = (process.env.APS_OUTPUT_FORMATS || '')
+  .split(',')
+  .map(format => format.trim())
+  .filter((format): format is OutputFormat => {
+    if (!format) return false;
+    if ((OUTPUT_FORMATS as readonly string[]).includes(format)) return true;
+    console.warn(`Ignoring unknown APS output format '${format}' in APS_OUTPUT_FORMATS`);
+    return false;
+  });
+
+// The viewer needs svf2, so it is always part of the request
+export function withViewerFormat(formats: readonly OutputFormat[]): OutputFormat[] {
+  return Array.from(new Set<OutputFormat>(['svf2', ...formats]));
+}
+
+export const DEFAULT_OUTPUT_FORMATS = withViewerFormat(configuredFormats);
+
+// The formats a file is translated to: its own choice, or the server default
+export function outputFormatsFor(metadata: Record<string, any>): OutputFormat[] {
+  return metadata.outputFormats ? withViewerFormat(metadata.outputFormats) : DEFAULT_OUTPUT_FORMATS;
+}
+
+// Viewer derivatives are streamed by the viewer itself and have no single file to download
+const VIEWER_OUTPUTS = ['svf', 'svf2'];
+
+interface ManifestResource {
+  guid: string;
+  urn: string;
+  name: string;
+  role: string;
+  mime?: string;
+}
+
+// Every node below a derivative or node, depth first
+function descendants(node: { children?: APSManifestNode[] }, nodes: APSManifestNode[] = []): APSManifestNode[] {
+  for (const child of node.children || []) {
+    nodes.push(child);
+    descendants(child, nodes);
+  }
+  return nodes;
+}
+
+// Nodes that point at a stored file
+function collectResources(derivative: APSManifestDerivative): ManifestResource[] {
+  return descendants(derivative)
+    .filter((node): node is APSManifestNode & { urn: string } => !!node.urn && !!node.guid)
+    .map(node => ({
+      guid: node.guid,
+      urn: node.urn,
+      name: node.name || decodeURIComponent(node.urn.split('/').pop()!),
+      role: node.role || node.type,
+      mime: node.mime,
+    }));
+}
+
+// APS reports progress as '45% complete' or 'complete'
+function parseProgress(status: DerivativeStatus, progress?: string): number {
+  if (status === 'success' || status === 'failed' || status === 'timeout') return 100;
+  const percent = /(\d+)%/.exec(progress || '');
+  return percent ? Math.min(100, Number(percent[1])) : 0;
+}
+
+function toMessages(messages: APSManifestMessage[] | undefined, outputType?: string): TranslationMessage[] {
+  return (messages || []).map(({ type, code, message }) => ({
+    type,
+    code,
+    message: Array.isArray(message) ? message.join(' ') : message,
+    ...(outputType ? { outputType } : {}),
+  }));
+}
+
+function parseOutput(derivative: APSManifestDerivative): DerivativeOutput {
+  return {
+    outputType: derivative.outputType,
+    status: derivative.status,
+    progress: parseProgress(derivative.status, derivative.progress),
+    files: VIEWER_OUTPUTS.includes(derivative.outputType)
+      ? []
+      : collectResources(derivative).map(({ guid, name, role, mime }): DerivativeFile => ({ guid, name, role, mime })),
+  };
+}
+
+// Parse a manifest into its outputs, the sheets and views the viewer can open, and any warnings or errors
+export function parseManifest(manifest: APSManifest): TranslationSummary {
+  const derivatives = manifest.derivatives || [];
+
+  const viewables: Viewable[] = derivatives
+    .filter(derivative => VIEWER_OUTPUTS.includes(derivative.outputType))
+    .flatMap(derivative => descendants(derivative))
+    .filter(node => node.type === 'geometry' && (node.role === '2d' || node.role === '3d'))
+    .map(node => ({ guid: node.guid, name: node.name || node.guid, role: node.role as Viewable['role'] }));
+
+  const messages = [
+    ...toMessages(manifest.messages),
+    ...derivatives.flatMap(derivative => [
+      ...toMessages(derivative.messages, derivative.outputType),
+      ...descendants(derivative).flatMap(node => toMessages(node.messages, derivative.outputType)),
+    ]),
+  ];
+
+  return {
+    status: manifest.status,
+    progress: parseProgress(manifest.status, manifest.progress),
+    outputs: derivatives.map(parseOutput),
+    viewables,
+    messages,
+  };
+}
+
+export function findDerivativeResource(manifest: APSManifest, guid: string): ManifestResource | undefined {
+  return manifest.derivatives
+    ?.filter(derivative => !VIEWER_OUTPUTS.includes(derivative.outputType))
+    .flatMap(collectResources)
+    .find(resource => resource.guid === guid);
+}
+
+// The status of the viewer output alone; extra outputs that are still running or failed do not keep a
+// drawing from being viewed. Falls back to the overall status before APS lists any derivative.
+export function viewableStatus(manifest: APSManifest | null): DerivativeStatus | undefined {
+  if (!manifest) return undefined;
+  const viewer = (manifest.derivatives || []).find(derivative => VIEWER_OUTPUTS.includes(derivative.outputType));
+  return viewer ? viewer.status : manifest.status;
+}
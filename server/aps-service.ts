@@ -1,7 +1,9 @@
 import axios from 'axios';
 import FormData from 'form-data';
 import fs from 'fs';
-import crypto from 'crypto';
+import type { Readable } from 'stream';
+import type { OutputFormat } from '@shared/derivatives';
+import type { BucketPolicy } from './aps-buckets';
 
 export interface APSAuth {
   access_token: string;
@@ -26,48 +28,153 @@ export interface APSUploadResult {
   location: string;
 }
 
-export interface APSJob {
-  urn: string;
+// Response to a Model Derivative job request
+export interface APSTranslationJob {
   result: string;
+  urn: string;
+  acceptedJobs?: { output: any };
+}
+
+export type APSManifestStatus = 'pending' | 'inprogress' | 'success' | 'failed' | 'timeout';
+
+export interface APSManifestMessage {
+  type: 'error' | 'warning' | 'info';
+  code: string;
+  // APS sends either a single message or a list of lines
+  message: string | string[];
+}
+
+// A node in a derivative's tree: geometry nodes are the viewables (2D sheets/layouts and 3D views),
+// resource nodes are stored files that can be downloaded
+export interface APSManifestNode {
+  guid: string;
   type: string;
+  role?: string;
+  name?: string;
+  status?: APSManifestStatus;
+  progress?: string;
+  urn?: string;
+  mime?: string;
+  messages?: APSManifestMessage[];
+  children?: APSManifestNode[];
+}
+
+export interface APSManifestDerivative {
+  outputType: string;
+  status: APSManifestStatus;
+  progress?: string;
+  name?: string;
+  hasThumbnail?: string;
+  messages?: APSManifestMessage[];
+  children?: APSManifestNode[];
+}
+
+export interface APSManifest {
+  type: 'manifest';
+  urn: string;
   region: string;
   version: string;
+  status: APSManifestStatus;
+  // e.g. '45% complete' or 'complete'
   progress: string;
-  status: string;
-  success: string;
   hasThumbnail: string;
-  startedAt: string;
-  registerTime: string;
+  derivatives: APSManifestDerivative[];
+  messages?: APSManifestMessage[];
+}
+
+export interface APSDerivativeDownload {
+  stream: Readable;
+  contentType?: string;
+  size?: number;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Server-side calls need write access; browsers only ever get a token that can read viewables
+const SERVER_SCOPES = 'data:read data:write data:create bucket:create bucket:read bucket:delete';
+const VIEWER_SCOPES = 'viewables:read';
+
+// Cached tokens are renewed this long before they expire so callers never get one about to lapse
+const TOKEN_RENEWAL_MARGIN_MS = 5 * 60 * 1000;
+
+interface APSSignedUpload {
+  uploadKey: string;
+  urls: string[];
+}
+
+const MB = 1024 * 1024;
+
+// Direct-to-S3 limits: parts of at least 5MB (except the last), at most 10,000 parts,
+// and at most 25 signed URLs per request
+const MIN_PART_SIZE = 5 * MB;
+const MAX_PARTS = 10000;
+const URLS_PER_REQUEST = 25;
+
+const PART_SIZE = Math.max(MIN_PART_SIZE, (Number(process.env.APS_UPLOAD_PART_SIZE_MB) || 8) * MB);
+const PART_CONCURRENCY = Number(process.env.APS_UPLOAD_CONCURRENCY) || 4;
+const PART_ATTEMPTS = 3;
+const SIGNED_URL_MINUTES = 60;
+
+// Network errors, throttling and server errors are worth another try; S3 answers 403 once a signed URL has expired
+function isRetryablePartError(error: any): boolean {
+  const status = error.response?.status;
+  return !status || status >= 500 || status === 403 || status === 408 || status === 429;
+}
+
+function ignoreNotFound(error: any): void {
+  if (error.response?.status !== 404) throw error;
+}
+
+// The job payload for one output; svf2 covers both model and sheet views for the viewer
+function outputSpec(format: OutputFormat): Record<string, any> {
+  switch (format) {
+    case 'svf2':
+      return { type: 'svf2', views: ['2d', '3d'] };
+    case 'thumbnail':
+      return { type: 'thumbnail', advanced: { width: 400, height: 400 } };
+    default:
+      return { type: format };
+  }
 }
 
 export class APSService {
   private clientId: string;
   private clientSecret: string;
-  private baseUrl = 'https://developer.api.autodesk.com';
-  private accessToken?: string;
-  private tokenExpiry?: Date;
+  // Overridable so development and CI can run against the local stand-in in fake-aps.ts
+  private baseUrl = (process.env.APS_BASE_URL || 'https://developer.api.autodesk.com').replace(/\/+$/, '');
+  // One cached token per scope set
+  private tokens = new Map<string, CachedToken>();
 
   constructor() {
-    this.clientId = process.env.APS_CLIENT_ID!;
-    this.clientSecret = process.env.APS_CLIENT_SECRET!;
-    
-    if (!this.clientId || !this.clientSecret) {
+    this.clientId = process.env.APS_CLIENT_ID || '';
+    this.clientSecret = process.env.APS_CLIENT_SECRET || '';
+  }
+
+  // Without credentials the server runs in local-only mode and cloud translation is disabled
+  isConfigured(): boolean {
+    return !!(this.clientId && this.clientSecret);
+  }
+
+  private async requestToken(scope: string): Promise<APSAuth> {
+    if (!this.isConfigured()) {
       throw new Error('APS_CLIENT_ID and APS_CLIENT_SECRET environment variables are required');
     }
-  }
 
-  async authenticate(): Promise<APSAuth> {
-    if (this.accessToken && this.tokenExpiry && new Date() < this.tokenExpiry) {
+    const cached = this.tokens.get(scope);
+    if (cached && cached.expiresAt - Date.now() > TOKEN_RENEWAL_MARGIN_MS) {
       return {
-        access_token: this.accessToken,
-        expires_in: Math.floor((this.tokenExpiry.getTime() - Date.now()) / 1000),
+        access_token: cached.accessToken,
+        expires_in: Math.floor((cached.expiresAt - Date.now()) / 1000),
         token_type: 'Bearer'
       };
     }
 
     const response = await axios.post(
       `${this.baseUrl}/authentication/v2/token`,
-      'grant_type=client_credentials&scope=data:read data:write data:create bucket:create bucket:read',
+      new URLSearchParams({ grant_type: 'client_credentials', scope }).toString(),
       {
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -77,13 +184,20 @@ export class APSService {
     );
 
     const auth: APSAuth = response.data;
-    this.accessToken = auth.access_token;
-    this.tokenExpiry = new Date(Date.now() + (auth.expires_in * 1000));
+    this.tokens.set(scope, {
+      accessToken: auth.access_token,
+      expiresAt: Date.now() + (auth.expires_in * 1000)
+    });
     
     return auth;
   }
 
-  async createBucket(bucketKey: string): Promise<APSBucket> {
+  authenticate(): Promise<APSAuth> {
+    return this.requestToken(SERVER_SCOPES);
+  }
+
+  // Creating a bucket that already exists returns the existing one
+  async createBucket(bucketKey: string, policyKey: BucketPolicy = 'temporary'): Promise<APSBucket> {
     const auth = await this.authenticate();
     
     try {
@@ -91,7 +205,7 @@ export class APSService {
         `${this.baseUrl}/oss/v2/buckets`,
         {
           bucketKey,
-          policyKey: 'temporary'
+          policyKey
         },
         {
           headers: {
@@ -118,63 +232,133 @@ export class APSService {
     }
   }
 
-  async uploadFile(bucketKey: string, objectKey: string, filePath: string): Promise<APSUploadResult> {
+  private async getSignedUploadUrls(
+    bucketKey: string,
+    objectKey: string,
+    firstPart: number,
+    parts: number,
+    uploadKey?: string,
+    signal?: AbortSignal
+  ): Promise<APSSignedUpload> {
     const auth = await this.authenticate();
-    const stats = fs.statSync(filePath);
-    const fileSize = stats.size;
-    
-    // Use Direct-to-S3 upload approach
-    // Step 1: Get signed S3 URLs
+
     const response = await axios.get(
       `${this.baseUrl}/oss/v2/buckets/${bucketKey}/objects/${objectKey}/signeds3upload`,
       {
         params: {
-          firstPart: 1,
-          parts: 1 // Single part upload for simplicity
+          firstPart,
+          parts,
+          minutesExpiration: SIGNED_URL_MINUTES,
+          ...(uploadKey ? { uploadKey } : {})
         },
         headers: {
           'Authorization': `Bearer ${auth.access_token}`
-        }
+        },
+        signal
       }
     );
 
-    const uploadData = response.data;
-    const uploadKey = uploadData.uploadKey;
-    const urls = uploadData.urls;
+    return response.data;
+  }
 
-    // Step 2: Upload file to S3 using the signed URL
-    const fileBuffer = fs.readFileSync(filePath);
-    
-    await axios.put(urls[0], fileBuffer, {
-      headers: {
-        'Content-Type': 'application/octet-stream'
+  // Stream a file to OSS in parts through signed S3 URLs, a few parts at a time
+  async uploadFile(bucketKey: string, objectKey: string, filePath: string, signal?: AbortSignal): Promise<APSUploadResult> {
+    const fileSize = (await fs.promises.stat(filePath)).size;
+    const partSize = Math.max(PART_SIZE, Math.ceil(fileSize / MAX_PARTS));
+    const partCount = Math.max(1, Math.ceil(fileSize / partSize));
+
+    // Step 1: the first batch of signed URLs also opens the upload
+    const first = await this.getSignedUploadUrls(
+      bucketKey, objectKey, 1, Math.min(partCount, URLS_PER_REQUEST), undefined, signal
+    );
+    const uploadKey = first.uploadKey;
+    const urls: string[] = [...first.urls];
+
+    // Later batches are fetched when the first part that needs them starts
+    const batches = new Map<number, Promise<void>>();
+    const signedUrl = async (index: number, refresh: boolean): Promise<string> => {
+      if (refresh) {
+        const { urls: [url] } = await this.getSignedUploadUrls(bucketKey, objectKey, index + 1, 1, uploadKey, signal);
+        return urls[index] = url;
       }
-    });
+      if (!urls[index]) {
+        const batch = index - (index % URLS_PER_REQUEST);
+        if (!batches.has(batch)) {
+          const count = Math.min(URLS_PER_REQUEST, partCount - batch);
+          batches.set(batch, this.getSignedUploadUrls(bucketKey, objectKey, batch + 1, count, uploadKey, signal)
+            .then(({ urls: batchUrls }) => batchUrls.forEach((url, offset) => { urls[batch + offset] = url; }))
+            .catch((error) => {
+              batches.delete(batch);
+              throw error;
+            }));
+        }
+        await batches.get(batch);
+      }
+      return urls[index];
+    };
 
-    // Step 3: Finalize the upload
+    // Step 2: upload each part straight from disk, retrying with a fresh URL when one has expired
+    const uploadPart = async (index: number): Promise<string> => {
+      const start = index * partSize;
+      const end = Math.min(start + partSize, fileSize);
+      let refresh = false;
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const url = await signedUrl(index, refresh);
+          const response = await axios.put(
+            url,
+            end > start ? fs.createReadStream(filePath, { start, end: end - 1 }) : Buffer.alloc(0),
+            {
+              headers: {
+                'Content-Type': 'application/octet-stream',
+                'Content-Length': end - start
+              },
+              maxBodyLength: Infinity,
+              signal
+            }
+          );
+          return response.headers.etag;
+        } catch (error: any) {
+          if (signal?.aborted || attempt >= PART_ATTEMPTS || !isRetryablePartError(error)) throw error;
+          refresh = error.response?.status === 403;
+          await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+        }
+      }
+    };
+
+    const eTags: string[] = new Array(partCount);
+    let nextPart = 0;
+    const worker = async () => {
+      while (nextPart < partCount) {
+        const index = nextPart++;
+        eTags[index] = await uploadPart(index);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, partCount) }, worker));
+
+    // Step 3: finalize the upload with the ETags S3 returned, in part order
+    const auth = await this.authenticate();
     const finalizeResponse = await axios.post(
       `${this.baseUrl}/oss/v2/buckets/${bucketKey}/objects/${objectKey}/signeds3upload`,
       {
-        uploadKey: uploadKey,
-        parts: [
-          {
-            PartNumber: 1,
-            ETag: '"' + crypto.createHash('md5').update(fileBuffer).digest('hex') + '"'
-          }
-        ]
+        uploadKey,
+        size: fileSize,
+        eTags
       },
       {
         headers: {
           'Authorization': `Bearer ${auth.access_token}`,
           'Content-Type': 'application/json'
-        }
+        },
+        signal
       }
     );
 
     // Return standardized result
     return {
       bucketKey: bucketKey,
-      objectId: `urn:adsk.objects:os.object:${bucketKey}/${objectKey}`,
+      objectId: finalizeResponse.data.objectId || `urn:adsk.objects:os.object:${bucketKey}/${objectKey}`,
       objectKey: objectKey,
       size: fileSize,
       contentType: 'application/octet-stream',
@@ -182,7 +366,8 @@ export class APSService {
     };
   }
 
-  async translateFile(urn: string): Promise<APSJob> {
+  // Without force, outputs that already exist are kept and only missing ones are generated
+  async translateFile(urn: string, force = false, formats: readonly OutputFormat[] = ['svf2']): Promise<APSTranslationJob> {
     const auth = await this.authenticate();
     
     const response = await axios.post(
@@ -192,18 +377,15 @@ export class APSService {
           urn: urn
         },
         output: {
-          formats: [
-            {
-              type: 'svf2',
-              views: ['2d', '3d']
-            }
-          ]
+          formats: formats.map(outputSpec)
         }
       },
       {
         headers: {
           'Authorization': `Bearer ${auth.access_token}`,
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          // Replace an existing (e.g. failed) manifest instead of returning it unchanged
+          ...(force ? { 'x-ads-force': 'true' } : {})
         }
       }
     );
@@ -211,7 +393,7 @@ export class APSService {
     return response.data;
   }
 
-  async getTranslationStatus(urn: string): Promise<APSJob> {
+  async getTranslationStatus(urn: string): Promise<APSManifest> {
     const auth = await this.authenticate();
     
     const response = await axios.get(
@@ -226,9 +408,71 @@ export class APSService {
     return response.data;
   }
 
-  async getViewerToken(): Promise<string> {
+  // Delete the derivatives of a translation; a manifest that is already gone counts as deleted
+  async deleteManifest(urn: string): Promise<void> {
+    const auth = await this.authenticate();
+    
+    await axios.delete(
+      `${this.baseUrl}/modelderivative/v2/designdata/${urn}/manifest`,
+      {
+        headers: {
+          'Authorization': `Bearer ${auth.access_token}`
+        }
+      }
+    ).catch(ignoreNotFound);
+  }
+
+  async deleteObject(bucketKey: string, objectKey: string): Promise<void> {
     const auth = await this.authenticate();
-    return auth.access_token;
+    
+    await axios.delete(
+      `${this.baseUrl}/oss/v2/buckets/${bucketKey}/objects/${objectKey}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${auth.access_token}`
+        }
+      }
+    ).catch(ignoreNotFound);
+  }
+
+  async deleteBucket(bucketKey: string): Promise<void> {
+    const auth = await this.authenticate();
+    
+    await axios.delete(
+      `${this.baseUrl}/oss/v2/buckets/${bucketKey}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${auth.access_token}`
+        }
+      }
+    ).catch(ignoreNotFound);
+  }
+
+  // Stream a derivative file. APS hands out a CDN URL together with signed cookies that grant access to it.
+  async downloadDerivative(urn: string, derivativeUrn: string): Promise<APSDerivativeDownload> {
+    const auth = await this.authenticate();
+
+    const signed = await axios.get(
+      `${this.baseUrl}/modelderivative/v2/designdata/${urn}/manifest/${encodeURIComponent(derivativeUrn)}/signedcookies`,
+      {
+        headers: {
+          'Authorization': `Bearer ${auth.access_token}`
+        }
+      }
+    );
+    const cookies = (signed.headers['set-cookie'] || []).map(cookie => cookie.split(';')[0]).join('; ');
+
+    const response = await axios.get(signed.data.url, {
+      headers: { 'Cookie': cookies },
+      responseType: 'stream'
+    });
+
+    return { stream: response.data, contentType: signed.data['content-type'], size: signed.data.size };
+  }
+
+  // A read-only token for the browser viewer, with its real remaining lifetime
+  getViewerToken(): Promise<APSAuth> {
+    return this.requestToken(VIEWER_SCOPES);
   }
 
   encodeBase64Url(text: string): string {
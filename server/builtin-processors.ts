@@ -0,0 +1,234 @@
+import { FILE_TYPES, type File } from '@shared/schema';
+import { apsService } from './aps-service';
+import { assignBucket, objectExpiresAt } from './aps-buckets';
+import { outputFormatsFor, parseManifest, viewableStatus } from './aps-derivatives';
+import { parseDxfFile, summarizeDxf } from './dxf-parser';
+import { extractImageMetadata } from './image-metadata';
+import { extractPdfMetadata } from './pdf-metadata';
+import { extractDocumentPreview } from './document-preview';
+import { dxfThumbnail, extractDwgThumbnail, saveThumbnail, type StoredThumbnail, type Thumbnail } from './thumbnails';
+import { delay, PermanentJobError } from './job-queue';
+import { registerProcessor, type FileProcessor, type ProcessorContext } from './file-processors';
+
+// Queues: 'aps' uploads and translates drawings with Autodesk, 'local' covers everything parsed on this server
+const APS_QUEUE = 'aps';
+const LOCAL_QUEUE = 'local';
+
+const TRANSLATION_POLL_MS = Number(process.env.APS_TRANSLATION_POLL_MS) || 10000;
+const MAX_TRANSLATION_POLLS = 30; // 5 minutes max
+
+// Extract and store an embedded preview; a missing or unreadable preview is not an error
+async function storeThumbnail(
+  filePath: string,
+  extract: () => Promise<Thumbnail | null> | Thumbnail | null
+): Promise<StoredThumbnail | null> {
+  try {
+    const thumbnail = await extract();
+    return thumbnail ? await saveThumbnail(filePath, thumbnail) : null;
+  } catch (error) {
+    console.error('Thumbnail extraction error:', error);
+    return null;
+  }
+}
+
+// Local parsers fail deterministically, so their errors are never retried
+async function parseLocally(label: string, parse: () => Promise<Record<string, any>>): Promise<Record<string, any>> {
+  try {
+    return await parse();
+  } catch (error: any) {
+    throw new PermanentJobError(`${label} error: ${error.message}`);
+  }
+}
+
+// Upload a DWG to APS and wait for its translation. Network and APS errors are retried by the queue,
+// and a retried or resumed job reuses the object uploaded by the earlier attempt.
+async function translateWithAps(file: File, { signal, metadata, saveMetadata }: ProcessorContext): Promise<Record<string, any>> {
+  const { filePath } = file;
+  const existingMetadata = { ...metadata };
+  // Earlier versions kept the raw manifest and its progress text, which metadata.translation replaces
+  delete existingMetadata.derivatives;
+  delete existingMetadata.derivativeOutputs;
+  delete existingMetadata.progress;
+
+  // Show the embedded DWG preview in the queue while APS translates the drawing
+  if (existingMetadata.format === 'dwg' && !existingMetadata.thumbnail) {
+    existingMetadata.thumbnail = await storeThumbnail(filePath, () => extractDwgThumbnail(filePath));
+    await saveMetadata(existingMetadata);
+  }
+
+  try {
+    let { urn, bucketKey, objectKey } = existingMetadata;
+    let translated = false;
+    const formats = outputFormatsFor(existingMetadata);
+
+    // Objects past their bucket's retention are gone, so go straight to a fresh upload
+    if (urn && existingMetadata.objectExpiresAt && Date.parse(existingMetadata.objectExpiresAt) <= Date.now()) {
+      urn = undefined;
+    }
+
+    // A retry reuses the object already uploaded to APS and only translates it again
+    if (urn) {
+      try {
+        const manifest = await apsService.getTranslationStatus(urn).catch((error) => {
+          if (error.response?.status === 404) return null; // uploaded but never translated
+          throw error;
+        });
+        translated = viewableStatus(manifest) === 'success';
+        // An in-progress translation from an interrupted run is simply polled again
+        if (!translated && manifest?.status !== 'inprogress' && manifest?.status !== 'pending') {
+          await apsService.translateFile(urn, true, formats);
+        }
+      } catch (reuseError: any) {
+        // Objects in transient and temporary buckets expire, so fall back to a fresh upload
+        console.warn('Existing APS object could not be reused:', reuseError.message);
+        urn = undefined;
+      }
+    }
+
+    if (!urn) {
+      const bucket = assignBucket(file);
+      bucketKey = bucket.bucketKey;
+      objectKey = bucket.objectKey;
+
+      // Create the bucket, or reuse it when it is shared and already exists
+      await apsService.createBucket(bucketKey, bucket.policy);
+      signal.throwIfAborted();
+
+      // Upload file to APS
+      const uploadResult = await apsService.uploadFile(bucketKey, objectKey, filePath, signal);
+      urn = apsService.encodeBase64Url(uploadResult.objectId);
+
+      // Remember the object right away so a retry can skip the upload
+      Object.assign(existingMetadata, {
+        urn,
+        bucketKey,
+        objectKey,
+        bucketShared: bucket.shared,
+        objectExpiresAt: objectExpiresAt(bucket.policy),
+      });
+      await saveMetadata(existingMetadata);
+      signal.throwIfAborted();
+
+      // Start translation
+      await apsService.translateFile(urn, false, formats);
+    }
+
+    // Poll until the viewer output is done, checking right away when an earlier translation already succeeded.
+    // Extra outputs such as IFC or PDF keep running afterwards and are tracked from the manifest.
+    for (let poll = 1; ; poll++) {
+      await delay(poll === 1 && translated ? 0 : TRANSLATION_POLL_MS, signal);
+      const manifest = await apsService.getTranslationStatus(urn);
+      signal.throwIfAborted();
+      const viewable = viewableStatus(manifest);
+      const translation = parseManifest(manifest);
+
+      if (viewable === 'success') {
+        return {
+          ...existingMetadata,
+          viewerType: 'aps',
+          urn: urn,
+          bucketKey: bucketKey,
+          objectKey: objectKey,
+          status: 'translated',
+          outputFormats: formats,
+          translation
+        };
+      }
+      if (viewable === 'failed' || viewable === 'timeout') {
+        // Keep the manifest's errors and warnings for the UI, and name the first error in the failure
+        await saveMetadata({ ...existingMetadata, translation });
+        const error = translation.messages.find(message => message.type === 'error');
+        throw new PermanentJobError(error ? `APS translation failed: ${error.message}` : 'APS translation failed');
+      }
+      if (poll >= MAX_TRANSLATION_POLLS) {
+        throw new PermanentJobError('Translation timeout');
+      }
+
+      // Show overall and per-output progress in the queue
+      await saveMetadata({ ...existingMetadata, translation });
+    }
+  } catch (apsError: any) {
+    if (apsError instanceof PermanentJobError || signal.aborted) throw apsError;
+    throw new Error(`APS error: ${apsError.message}`);
+  }
+}
+
+export const apsProcessor: FileProcessor = {
+  name: 'aps',
+  queue: APS_QUEUE,
+  viewer: 'aps',
+  // DWG, DWT and binary DXF drawings are translated by APS
+  detect: (file, metadata) => file.fileType === FILE_TYPES.AUTOCAD && metadata.format !== 'dxf',
+  process: translateWithAps,
+};
+
+// Without APS, DWG drawings only get the preview image embedded in the file
+export const dwgPreviewProcessor: FileProcessor = {
+  name: 'dwg-preview',
+  queue: LOCAL_QUEUE,
+  viewer: 'standard',
+  detect: (file, metadata) => file.fileType === FILE_TYPES.AUTOCAD && metadata.format !== 'dxf',
+  process: async (file, { metadata }) => ({
+    ...metadata,
+    viewerType: 'standard',
+    thumbnail: metadata.thumbnail || await storeThumbnail(file.filePath, () => extractDwgThumbnail(file.filePath)),
+  }),
+};
+
+export const dxfProcessor: FileProcessor = {
+  name: 'dxf',
+  queue: LOCAL_QUEUE,
+  viewer: 'dxf',
+  // ASCII DXF drawings are parsed locally and need no APS credentials
+  detect: (file, metadata) => file.fileType === FILE_TYPES.AUTOCAD && metadata.format === 'dxf',
+  process: (file, { metadata }) => parseLocally('DXF', async () => {
+    const document = await parseDxfFile(file.filePath);
+    const thumbnail = await storeThumbnail(file.filePath, () => dxfThumbnail(document.thumbnail));
+    return { ...metadata, ...summarizeDxf(document), thumbnail };
+  }),
+};
+
+export const pdfProcessor: FileProcessor = {
+  name: 'pdf',
+  queue: LOCAL_QUEUE,
+  viewer: 'pdf',
+  detect: (file) => file.fileType === FILE_TYPES.PDF,
+  process: (file) => parseLocally('PDF', () => extractPdfMetadata(file.filePath)),
+};
+
+export const imageProcessor: FileProcessor = {
+  name: 'image',
+  queue: LOCAL_QUEUE,
+  viewer: 'image',
+  detect: (file) => file.fileType === FILE_TYPES.IMAGE,
+  process: (file) => parseLocally('Image', () => extractImageMetadata(file.filePath)),
+};
+
+export const documentProcessor: FileProcessor = {
+  name: 'document',
+  queue: LOCAL_QUEUE,
+  viewer: 'document',
+  detect: (file) => file.fileType === FILE_TYPES.DOCUMENT,
+  process: (file) => parseLocally('Document', () => extractDocumentPreview(file.filePath, file.originalName)),
+};
+
+// Anything no other processor claims is shown with the standard viewer
+export const standardProcessor: FileProcessor = {
+  name: 'standard',
+  queue: LOCAL_QUEUE,
+  viewer: 'standard',
+  detect: () => true,
+  process: async () => ({ viewerType: 'standard', processed: true }),
+};
+
+// Fallback first: later registrations are tried first
+export function registerBuiltinProcessors(): void {
+  [standardProcessor, documentProcessor, imageProcessor, pdfProcessor, dxfProcessor, dwgPreviewProcessor]
+    .forEach(registerProcessor);
+
+  if (apsService.isConfigured()) {
+    registerProcessor(apsProcessor);
+  } else {
+    console.warn('APS_CLIENT_ID and APS_CLIENT_SECRET are not set; running in local-only mode without cloud translation');
+  }
+}
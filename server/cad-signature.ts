@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+
+export type CadFormat = 'dwg' | 'dxf' | 'dxf-binary';
+
+export type CadSignature =
+  | { valid: true; format: CadFormat; acadVersion: string | null; version: string }
+  | { valid: false; reason: string };
+
+// DWG version strings / $ACADVER values mapped to the AutoCAD release that introduced them
+export const ACAD_RELEASES: Record<string, string> = {
+  'AC1.2': 'AutoCAD R1.2',
+  'AC1.40': 'AutoCAD R1.40',
+  'AC1.50': 'AutoCAD R2.05',
+  'AC2.10': 'AutoCAD R2.10',
+  AC1001: 'AutoCAD R2.22',
+  AC1002: 'AutoCAD R2.50',
+  AC1003: 'AutoCAD R2.60',
+  AC1004: 'AutoCAD R9',
+  AC1006: 'AutoCAD R10',
+  AC1009: 'AutoCAD R11/R12',
+  AC1012: 'AutoCAD R13',
+  AC1014: 'AutoCAD R14',
+  AC1015: 'AutoCAD 2000',
+  AC1018: 'AutoCAD 2004',
+  AC1021: 'AutoCAD 2007',
+  AC1024: 'AutoCAD 2010',
+  AC1027: 'AutoCAD 2013',
+  AC1032: 'AutoCAD 2018',
+};
+
+// Well-known signatures used to explain what a mislabelled upload actually is
+const FOREIGN_SIGNATURES: Array<{ bytes: number[]; name: string }> = [
+  { bytes: [0x50, 0x4b, 0x03, 0x04], name: 'a ZIP archive' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], name: 'a PDF document' },
+  { bytes: [0x89, 0x50, 0x4e, 0x47], name: 'a PNG image' },
+  { bytes: [0xff, 0xd8, 0xff], name: 'a JPEG image' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], name: 'a GIF image' },
+  { bytes: [0x52, 0x61, 0x72, 0x21], name: 'a RAR archive' },
+  { bytes: [0x37, 0x7a, 0xbc, 0xaf], name: 'a 7-Zip archive' },
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0], name: 'a Microsoft Office document' },
+];
+
+const BINARY_DXF_SENTINEL = 'AutoCAD Binary DXF\r\n\x1a\x00';
+const SNIFF_BYTES = 4096;
+
+export function describeRelease(acadVersion: string): string {
+  return ACAD_RELEASES[acadVersion] || acadVersion;
+}
+
+function describeContent(head: Buffer): string {
+  const match = FOREIGN_SIGNATURES.find(signature =>
+    signature.bytes.every((byte, i) => head[i] === byte)
+  );
+  return match ? `the content looks like ${match.name}` : 'the file header is not recognised';
+}
+
+function sniffDwg(head: Buffer, ext: string): CadSignature {
+  const versionString = head.subarray(0, 6).toString('latin1');
+  const match = /^AC(\d{4}|\d\.\d{1,2})/.exec(versionString);
+
+  if (!match) {
+    return { valid: false, reason: `Not a valid ${ext.toUpperCase()} file: ${describeContent(head)}` };
+  }
+
+  const acadVersion = match[0];
+  return { valid: true, format: 'dwg', acadVersion, version: describeRelease(acadVersion) };
+}
+
+function sniffDxf(head: Buffer): CadSignature {
+  if (head.subarray(0, BINARY_DXF_SENTINEL.length).toString('latin1') === BINARY_DXF_SENTINEL) {
+    return { valid: true, format: 'dxf-binary', acadVersion: null, version: 'Binary DXF' };
+  }
+
+  const text = head.toString('latin1').replace(/^\xEF\xBB\xBF/, '');
+  // ASCII DXF starts with a group code line, usually "0 / SECTION" or a 999 comment
+  if (!/^\s*(0\s*\r?\n\s*SECTION|999\s*\r?\n)/.test(text)) {
+    return { valid: false, reason: `Not a valid DXF file: ${describeContent(head)}` };
+  }
+
+  const version = /\$ACADVER\s*\r?\n\s*1\s*\r?\n\s*(AC[\d.]+)/.exec(text);
+  const acadVersion = version ? version[1] : null;
+  return {
+    valid: true,
+    format: 'dxf',
+    acadVersion,
+    version: acadVersion ? describeRelease(acadVersion) : 'Unknown',
+  };
+}
+
+// Check the leading bytes of a DWG/DWT/DXF upload against its extension
+export async function sniffCadFile(filePath: string, originalName: string): Promise<CadSignature> {
+  const ext = path.extname(originalName).toLowerCase().slice(1);
+  const handle = await fs.promises.open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    const head = buffer.subarray(0, bytesRead);
+
+    if (bytesRead === 0) {
+      return { valid: false, reason: `Not a valid ${ext.toUpperCase()} file: the file is empty` };
+    }
+
+    return ext === 'dxf' ? sniffDxf(head) : sniffDwg(head, ext);
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { UPLOADS_DIR, UPLOAD_SESSION_SUFFIX } from './upload-manifest';
+import type { IStorage } from './storage';
+
+const MB = 1024 * 1024;
+
+export const MAX_UPLOAD_SIZE = (Number(process.env.MAX_UPLOAD_SIZE_MB) || 500) * MB;
+export const UPLOAD_CHUNK_SIZE = (Number(process.env.UPLOAD_CHUNK_SIZE_MB) || 5) * MB;
+
+// Unfinished uploads are kept this long after their last chunk so a client can resume them
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+// How often abandoned uploads are looked for
+const EXPIRY_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface UploadSession {
+  uploadId: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  received: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class UploadError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+// Chunk writes and session updates for one upload run one at a time
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(uploadId: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(uploadId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(uploadId, next);
+  next.finally(() => {
+    if (locks.get(uploadId) === next) locks.delete(uploadId);
+  }).catch(() => undefined);
+  return next;
+}
+
+export function blobPath(uploadId: string): string {
+  return path.join(UPLOADS_DIR, uploadId);
+}
+
+function sessionPath(uploadId: string): string {
+  return `${blobPath(uploadId)}${UPLOAD_SESSION_SUFFIX}`;
+}
+
+async function saveSession(session: UploadSession): Promise<void> {
+  await fs.promises.writeFile(sessionPath(session.uploadId), JSON.stringify(session, null, 2));
+}
+
+export async function getUploadSession(uploadId: string): Promise<UploadSession> {
+  // Upload ids are generated hex strings; anything else must not reach the file system
+  if (!/^[0-9a-f]{32}$/.test(uploadId)) {
+    throw new UploadError(404, 'Upload not found');
+  }
+  try {
+    return JSON.parse(await fs.promises.readFile(sessionPath(uploadId), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') throw new UploadError(404, 'Upload not found');
+    throw error;
+  }
+}
+
+export async function createUploadSession(originalName: string, mimeType: string, size: number): Promise<UploadSession> {
+  if (!originalName || !Number.isInteger(size) || size < 0) {
+    throw new UploadError(400, 'A file name and size are required');
+  }
+  if (size > MAX_UPLOAD_SIZE) {
+    throw new UploadError(413, `Files must be smaller than ${Math.round(MAX_UPLOAD_SIZE / MB)}MB`);
+  }
+
+  const now = new Date().toISOString();
+  const session: UploadSession = {
+    uploadId: crypto.randomBytes(16).toString('hex'),
+    originalName,
+    mimeType: mimeType || 'application/octet-stream',
+    size,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks: Math.ceil(size / UPLOAD_CHUNK_SIZE),
+    received: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await fs.promises.mkdir(UPLOADS_DIR, { recursive: true });
+  await fs.promises.writeFile(blobPath(session.uploadId), Buffer.alloc(0));
+  await saveSession(session);
+  return session;
+}
+
+// Verify a chunk against its SHA-256 checksum and write it at its offset in the blob
+export function writeUploadChunk(uploadId: string, index: number, data: Buffer, checksum: string | undefined): Promise<UploadSession> {
+  return withLock(uploadId, async () => {
+    const session = await getUploadSession(uploadId);
+
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new UploadError(400, `Chunk index must be between 0 and ${session.totalChunks - 1}`);
+    }
+
+    const expectedSize = Math.min(session.chunkSize, session.size - index * session.chunkSize);
+    if (data.length !== expectedSize) {
+      throw new UploadError(400, `Chunk ${index} must be ${expectedSize} bytes, got ${data.length}`);
+    }
+
+    const actual = crypto.createHash('sha256').update(data).digest('hex');
+    if (!checksum || checksum.toLowerCase() !== actual) {
+      throw new UploadError(422, `Checksum mismatch for chunk ${index}`);
+    }
+
+    const handle = await fs.promises.open(blobPath(uploadId), 'r+');
+    try {
+      await handle.write(data, 0, data.length, index * session.chunkSize);
+    } finally {
+      await handle.close();
+    }
+
+    if (!session.received.includes(index)) {
+      session.received.push(index);
+      session.received.sort((a, b) => a - b);
+    }
+    session.updatedAt = new Date().toISOString();
+    await saveSession(session);
+    return session;
+  });
+}
+
+// Check every chunk arrived and hand the assembled blob over to the caller
+export function completeUpload(uploadId: string): Promise<UploadSession> {
+  return withLock(uploadId, async () => {
+    const session = await getUploadSession(uploadId);
+
+    const missing = session.totalChunks - session.received.length;
+    if (missing > 0) {
+      throw new UploadError(409, `${missing} chunk(s) have not been uploaded yet`);
+    }
+
+    const { size } = await fs.promises.stat(blobPath(uploadId));
+    if (size !== session.size) {
+      throw new UploadError(409, `Assembled file is ${size} bytes, expected ${session.size}`);
+    }
+
+    await fs.promises.rm(sessionPath(uploadId), { force: true });
+    return session;
+  });
+}
+
+export function abortUpload(uploadId: string): Promise<void> {
+  return withLock(uploadId, async () => {
+    await getUploadSession(uploadId);
+    await fs.promises.rm(sessionPath(uploadId), { force: true });
+    await fs.promises.rm(blobPath(uploadId), { force: true });
+  });
+}
+
+// Remove sessions nobody has resumed within the TTL, together with their partial blobs and records
+export async function expireStaleUploads(storage: IStorage): Promise<number> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(UPLOADS_DIR);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  let expired = 0;
+  for (const name of names) {
+    if (!name.endsWith(UPLOAD_SESSION_SUFFIX)) continue;
+
+    const uploadId = name.slice(0, -UPLOAD_SESSION_SUFFIX.length);
+    // Runs alongside requests, so a session resumed or completed meanwhile is left alone
+    const removed = await withLock(uploadId, async () => {
+      if (!fs.existsSync(sessionPath(uploadId))) return false;
+      try {
+        const session = await getUploadSession(uploadId);
+        if (Date.now() - new Date(session.updatedAt).getTime() < SESSION_TTL_MS) return false;
+      } catch (error) {
+        console.error(`Unreadable upload session ${name}:`, error);
+      }
+
+      await fs.promises.rm(sessionPath(uploadId), { force: true });
+      await fs.promises.rm(blobPath(uploadId), { force: true });
+      return true;
+    });
+    if (!removed) continue;
+
+    const stalePath = path.resolve(blobPath(uploadId));
+    const record = (await storage.getAllFiles()).find(file => path.resolve(file.filePath) === stalePath);
+    if (record) await storage.deleteFile(record.id);
+    expired++;
+  }
+  return expired;
+}
+
+export function startUploadExpiry(storage: IStorage): void {
+  const expire = () => expireStaleUploads(storage)
+    .then((expired) => {
+      if (expired > 0) console.log(`Removed ${expired} abandoned uploads`);
+    })
+    .catch((error) => console.error('Upload expiry error:', error));
+
+  expire();
+  setInterval(expire, EXPIRY_INTERVAL_MS).unref();
+}
@@ -0,0 +1,11 @@
+import pg from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import * as schema from '@shared/schema';
+
+// node-postgres works with any PostgreSQL server, including a local one for development
+export function createDb(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,63 @@
+import type { File, InsertFile, InsertJob, Job } from '@shared/schema';
+import type { IStorage } from './storage';
+
+// Base for storage decorators: forwards every call, subclasses override what they observe
+export class DelegatingStorage implements IStorage {
+  protected inner: IStorage;
+
+  constructor(inner: IStorage) {
+    this.inner = inner;
+  }
+
+  getFile(id: number): Promise<File | undefined> {
+    return this.inner.getFile(id);
+  }
+
+  getAllFiles(): Promise<File[]> {
+    return this.inner.getAllFiles();
+  }
+
+  createFile(file: InsertFile): Promise<File> {
+    return this.inner.createFile(file);
+  }
+
+  restoreFile(file: Omit<File, 'id'>): Promise<File> {
+    return this.inner.restoreFile(file);
+  }
+
+  updateFileStatus(id: number, status: string, errorMessage?: string): Promise<File | undefined> {
+    return this.inner.updateFileStatus(id, status, errorMessage);
+  }
+
+  updateFileMetadata(id: number, metadata: string): Promise<File | undefined> {
+    return this.inner.updateFileMetadata(id, metadata);
+  }
+
+  setFileDeletedAt(id: number, deletedAt: Date | null): Promise<File | undefined> {
+    return this.inner.setFileDeletedAt(id, deletedAt);
+  }
+
+  deleteFile(id: number): Promise<boolean> {
+    return this.inner.deleteFile(id);
+  }
+
+  createJob(job: InsertJob): Promise<Job> {
+    return this.inner.createJob(job);
+  }
+
+  claimNextJob(type: string, now: Date): Promise<Job | undefined> {
+    return this.inner.claimNextJob(type, now);
+  }
+
+  updateJob(id: number, changes: Partial<InsertJob>): Promise<Job | undefined> {
+    return this.inner.updateJob(id, changes);
+  }
+
+  getActiveJobs(fileId: number): Promise<Job[]> {
+    return this.inner.getActiveJobs(fileId);
+  }
+
+  requeueRunningJobs(): Promise<number> {
+    return this.inner.requeueRunningJobs();
+  }
+}
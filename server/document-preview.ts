@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import mammoth from 'mammoth';
+import sanitizeHtml from 'sanitize-html';
+
+export type DocumentFormat = 'text' | 'rtf' | 'docx' | 'doc';
+
+export interface StoredPreview {
+  mimeType: 'text/html' | 'text/plain';
+  path: string;
+}
+
+export interface DocumentMetadata {
+  viewerType: 'document';
+  format: DocumentFormat;
+  preview: StoredPreview | null;
+  truncated: boolean;
+  wordCount: number | null;
+  pageEstimate: number | null;
+}
+
+// A typical manuscript page holds about 500 words
+const WORDS_PER_PAGE = 500;
+
+// Larger text previews are cut off so the browser stays responsive
+const MAX_PREVIEW_CHARACTERS = 1024 * 1024;
+
+// RTF destinations whose content is never part of the visible text
+const RTF_IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'listtable', 'listoverridetable', 'rsidtbl', 'xmlnstbl', 'filetbl',
+  'revtbl', 'generator', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr',
+  'footerf', 'footnote', 'fldinst', 'bkmkstart', 'bkmkend', 'mmathPr',
+]);
+
+// Control words that produce visible characters
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img']),
+  allowedAttributes: {
+    a: ['href', 'id'],
+    img: ['src', 'alt'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan'],
+    p: ['id'],
+    li: ['id'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  // Mammoth embeds images as data URIs
+  allowedSchemesByTag: { img: ['data'] },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer' }),
+  },
+};
+
+export function detectDocumentFormat(originalName: string): DocumentFormat {
+  const ext = path.extname(originalName).toLowerCase();
+  if (ext === '.docx') return 'docx';
+  if (ext === '.doc') return 'doc';
+  if (ext === '.rtf') return 'rtf';
+  return 'text';
+}
+
+export function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+// Decode UTF-8 text (dropping any BOM), falling back to Latin-1 for legacy 8-bit files
+function decodeText(data: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return data.toString('latin1');
+  }
+}
+
+// Reduce an RTF document to its plain text content
+export function rtfToText(rtf: string): string {
+  const groups: { ignored: boolean; unicodeSkip: number }[] = [];
+  let ignored = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  let text = '';
+
+  const emit = (value: string) => {
+    if (ignored) return;
+    if (pendingSkip > 0) {
+      // Characters following \uN are fallbacks for readers without Unicode support
+      pendingSkip--;
+      return;
+    }
+    text += value;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === '{') {
+      groups.push({ ignored, unicodeSkip });
+      pendingSkip = 0;
+      i++;
+    } else if (ch === '}') {
+      const group = groups.pop();
+      if (group) {
+        ignored = group.ignored;
+        unicodeSkip = group.unicodeSkip;
+      }
+      pendingSkip = 0;
+      i++;
+    } else if (ch === '\\') {
+      const next = rtf[i + 1];
+
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+      } else if (next === '*') {
+        // Unknown destinations are marked with \* and can be skipped as a whole
+        ignored = true;
+        i += 2;
+      } else if (next === "'") {
+        const code = parseInt(rtf.substr(i + 2, 2), 16);
+        if (!isNaN(code)) emit(String.fromCharCode(code));
+        i += 4;
+      } else if (next === '~') {
+        emit(' ');
+        i += 2;
+      } else if (next === '_') {
+        emit('‑');
+        i += 2;
+      } else if (next === '\r' || next === '\n') {
+        emit('\n');
+        i += 2;
+      } else {
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+        if (!match) {
+          // Other control symbols such as \- (optional hyphen) have no visible output
+          i += 2;
+          continue;
+        }
+        i += 1 + match[0].length;
+
+        const word = match[1];
+        const parameter = match[2] !== undefined ? parseInt(match[2], 10) : null;
+
+        if (RTF_IGNORED_DESTINATIONS.has(word)) {
+          ignored = true;
+        } else if (word === 'uc') {
+          unicodeSkip = parameter ?? 1;
+        } else if (word === 'u' && parameter !== null) {
+          emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+          if (!ignored) pendingSkip = unicodeSkip;
+        } else if (word === 'bin' && parameter !== null) {
+          i += parameter;
+        } else if (RTF_SYMBOLS[word]) {
+          emit(RTF_SYMBOLS[word]);
+        }
+      }
+    } else {
+      // Line breaks in the source are not significant in RTF
+      if (ch !== '\r' && ch !== '\n') emit(ch);
+      i++;
+    }
+  }
+
+  return text.replace(/[ \t]+\n/g, '\n').trim();
+}
+
+// Write the preview next to the uploaded blob
+async function savePreview(filePath: string, mimeType: StoredPreview['mimeType'], content: string): Promise<StoredPreview> {
+  const previewPath = `${filePath}.preview.${mimeType === 'text/html' ? 'html' : 'txt'}`;
+  await fs.promises.writeFile(previewPath, content, 'utf8');
+  return { mimeType, path: previewPath };
+}
+
+function pageEstimate(wordCount: number): number {
+  return wordCount > 0 ? Math.ceil(wordCount / WORDS_PER_PAGE) : 0;
+}
+
+// Build a browser-safe preview of a text or Office document and measure its length
+export async function extractDocumentPreview(filePath: string, originalName: string): Promise<DocumentMetadata> {
+  const format = detectDocumentFormat(originalName);
+
+  if (format === 'doc') {
+    // Legacy binary Word files have no pure JS converter; they stay download-only
+    return { viewerType: 'document', format, preview: null, truncated: false, wordCount: null, pageEstimate: null };
+  }
+
+  if (format === 'docx') {
+    const [{ value: html, messages }, { value: rawText }] = await Promise.all([
+      mammoth.convertToHtml({ path: filePath }),
+      mammoth.extractRawText({ path: filePath }),
+    ]);
+    for (const message of messages) {
+      if (message.type === 'error') console.warn(`DOCX conversion (${originalName}):`, message.message);
+    }
+
+    const wordCount = countWords(rawText);
+    return {
+      viewerType: 'document',
+      format,
+      preview: await savePreview(filePath, 'text/html', sanitizeHtml(html, SANITIZE_OPTIONS)),
+      truncated: false,
+      wordCount,
+      pageEstimate: pageEstimate(wordCount),
+    };
+  }
+
+  const data = await fs.promises.readFile(filePath);
+  // RTF escapes everything outside 7-bit ASCII, so Latin-1 decoding is lossless
+  const text = format === 'rtf' ? rtfToText(data.toString('latin1')) : decodeText(data);
+  const truncated = text.length > MAX_PREVIEW_CHARACTERS;
+  const wordCount = countWords(text);
+
+  return {
+    viewerType: 'document',
+    format,
+    preview: await savePreview(filePath, 'text/plain', truncated ? text.slice(0, MAX_PREVIEW_CHARACTERS) : text),
+    truncated,
+    wordCount,
+    pageEstimate: pageEstimate(wordCount),
+  };
+}
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import { parseDxfFile } from './dxf-parser';
+import { buildDrawing } from './dxf-geometry';
+
+// Bump when buildDrawing changes its output, so drawings cached by an older version are rebuilt
+const DRAWING_CACHE_VERSION = 1;
+
+// Builds running right now, so concurrent requests for one drawing share a single parse
+const pending = new Map<string, Promise<void>>();
+
+function drawingCachePath(filePath: string): string {
+  return `${filePath}.drawing.v${DRAWING_CACHE_VERSION}.json`;
+}
+
+async function buildAndStore(filePath: string, cachePath: string): Promise<void> {
+  const json = JSON.stringify(buildDrawing(await parseDxfFile(filePath)));
+  // Written aside and renamed, so a crash never leaves a half-written cache behind
+  await fs.promises.writeFile(`${cachePath}.tmp`, json);
+  await fs.promises.rename(`${cachePath}.tmp`, cachePath);
+}
+
+// Path of the tessellated drawing as JSON, built from the DXF on first use and kept as a sidecar
+export async function getDrawingPath(filePath: string): Promise<string> {
+  const cachePath = drawingCachePath(filePath);
+  if (fs.existsSync(cachePath)) return cachePath;
+
+  let build = pending.get(cachePath);
+  if (!build) {
+    build = buildAndStore(filePath, cachePath).finally(() => pending.delete(cachePath));
+    pending.set(cachePath, build);
+  }
+  await build;
+  return cachePath;
+}
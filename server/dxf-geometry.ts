@@ -0,0 +1,476 @@
+import { aciToHex, trueColorToHex } from '@shared/aci-colors';
+import type { Drawing, DrawingExtents, DrawingPrimitive, DrawingText } from '@shared/drawing';
+import type { DxfBlock, DxfDocument, DxfEntity } from './dxf-parser';
+
+// 2D affine matrix [a, b, c, d, e, f]: x' = a*x + c*y + e, y' = b*x + d*y + f
+type Matrix = [number, number, number, number, number, number];
+
+interface RenderContext {
+  matrix: Matrix;
+  // Layer and colour of the enclosing INSERT, inherited by layer 0 / BYBLOCK entities
+  layer: string | null;
+  color: string | null;
+  depth: number;
+  // Shared by every nested context, so the whole drawing stays within one limit
+  budget: RenderBudget;
+}
+
+interface RenderBudget {
+  entities: number;
+  truncated: boolean;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_INSERT_DEPTH = 16;
+const MAX_ARRAY_CELLS = 1000;
+// Nested INSERTs multiply, so a few KB of DXF can expand to millions of entities; stop at this many in total
+const MAX_RENDERED_ENTITIES = 100000;
+const CIRCLE_SEGMENTS = 64;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function translate(x: number, y: number): Matrix {
+  return [1, 0, 0, 1, x, y];
+}
+
+function rotate(degrees: number): Matrix {
+  const r = degrees * Math.PI / 180;
+  return [Math.cos(r), Math.sin(r), -Math.sin(r), Math.cos(r), 0, 0];
+}
+
+function scale(x: number, y: number): Matrix {
+  return [x, 0, 0, y, 0, 0];
+}
+
+function apply(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+function values(entity: DxfEntity, code: number): number[] {
+  return entity.groups.filter(g => g.code === code).map(g => parseFloat(g.value));
+}
+
+function num(entity: DxfEntity, code: number, fallback = 0): number {
+  const group = entity.groups.find(g => g.code === code);
+  if (!group) return fallback;
+  const value = parseFloat(group.value);
+  return isNaN(value) ? fallback : value;
+}
+
+function str(entity: DxfEntity, code: number): string | undefined {
+  return entity.groups.find(g => g.code === code)?.value;
+}
+
+// Entities with a -Z extrusion are mirrored about the Y axis in their object coordinate system
+function ocsMatrix(entity: DxfEntity): Matrix {
+  return num(entity, 230, 1) < 0 ? scale(-1, 1) : IDENTITY;
+}
+
+function resolveLayer(entity: DxfEntity, ctx: RenderContext): string {
+  return entity.layer === '0' && ctx.layer ? ctx.layer : entity.layer;
+}
+
+function resolveColor(entity: DxfEntity, ctx: RenderContext): string | null {
+  const trueColor = str(entity, 420);
+  if (trueColor !== undefined) return trueColorToHex(parseInt(trueColor, 10));
+  if (entity.color === null || entity.color === 256) return null;
+  if (entity.color === 0) return ctx.color;
+  return aciToHex(entity.color);
+}
+
+function arcPoints(cx: number, cy: number, r: number, start: number, end: number): [number, number][] {
+  while (end <= start) end += Math.PI * 2;
+  const sweep = end - start;
+  const segments = Math.max(8, Math.ceil(sweep / (Math.PI * 2) * CIRCLE_SEGMENTS));
+  const points: [number, number][] = [];
+  for (let i = 0; i <= segments; i++) {
+    const a = start + sweep * i / segments;
+    points.push([cx + r * Math.cos(a), cy + r * Math.sin(a)]);
+  }
+  return points;
+}
+
+// Intermediate points of a polyline segment with a bulge (tan of a quarter of the arc angle)
+function bulgePoints(x1: number, y1: number, x2: number, y2: number, bulge: number): [number, number][] {
+  const theta = 4 * Math.atan(bulge);
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const chord = Math.hypot(dx, dy);
+  if (chord === 0) return [];
+
+  const r = chord / (2 * Math.sin(theta / 2));
+  const h = r * Math.cos(theta / 2);
+  const cx = (x1 + x2) / 2 - dy / chord * h;
+  const cy = (y1 + y2) / 2 + dx / chord * h;
+  const startAngle = Math.atan2(y1 - cy, x1 - cx);
+  const segments = Math.max(4, Math.ceil(Math.abs(theta) / (Math.PI * 2) * CIRCLE_SEGMENTS));
+
+  const points: [number, number][] = [];
+  for (let i = 1; i < segments; i++) {
+    const a = startAngle + theta * i / segments;
+    points.push([cx + Math.abs(r) * Math.cos(a), cy + Math.abs(r) * Math.sin(a)]);
+  }
+  return points;
+}
+
+function vertexPoints(vertices: Array<{ x: number; y: number; bulge: number }>, closed: boolean): [number, number][] {
+  const points: [number, number][] = [];
+  vertices.forEach((vertex, i) => {
+    points.push([vertex.x, vertex.y]);
+    const next = vertices[i + 1] ?? (closed ? vertices[0] : undefined);
+    if (next && vertex.bulge !== 0) {
+      points.push(...bulgePoints(vertex.x, vertex.y, next.x, next.y, vertex.bulge));
+    }
+  });
+  return points;
+}
+
+function lwPolylineVertices(entity: DxfEntity): Array<{ x: number; y: number; bulge: number }> {
+  const vertices: Array<{ x: number; y: number; bulge: number }> = [];
+  for (const group of entity.groups) {
+    const last = vertices[vertices.length - 1];
+    if (group.code === 10) {
+      vertices.push({ x: parseFloat(group.value), y: 0, bulge: 0 });
+    } else if (group.code === 20 && last) {
+      last.y = parseFloat(group.value);
+    } else if (group.code === 42 && last) {
+      last.bulge = parseFloat(group.value);
+    }
+  }
+  return vertices;
+}
+
+// Evaluate a (rational) B-spline with de Boor's algorithm
+function splinePoints(entity: DxfEntity): [number, number][] {
+  const degree = num(entity, 71, 3);
+  const knots = values(entity, 40);
+  const xs = values(entity, 10);
+  const ys = values(entity, 20);
+  const weights = values(entity, 41);
+  const control = xs.map((x, i) => [x, ys[i] ?? 0] as [number, number]);
+
+  if (control.length <= degree || knots.length !== control.length + degree + 1) {
+    const fitXs = values(entity, 11);
+    const fitYs = values(entity, 21);
+    return fitXs.length > 1 ? fitXs.map((x, i) => [x, fitYs[i] ?? 0]) : control;
+  }
+
+  const weightOf = (i: number) => weights.length === control.length ? weights[i] : 1;
+  const start = knots[degree];
+  const end = knots[control.length];
+  const samples = Math.max(20, control.length * 8);
+  const points: [number, number][] = [];
+
+  for (let s = 0; s <= samples; s++) {
+    const t = start + (end - start) * s / samples;
+    let k = degree;
+    while (k < control.length - 1 && t >= knots[k + 1]) k++;
+
+    const d: number[][] = [];
+    for (let j = 0; j <= degree; j++) {
+      const i = j + k - degree;
+      const w = weightOf(i);
+      d.push([control[i][0] * w, control[i][1] * w, w]);
+    }
+
+    for (let r = 1; r <= degree; r++) {
+      for (let j = degree; j >= r; j--) {
+        const i = j + k - degree;
+        const span = knots[i + degree - r + 1] - knots[i];
+        const alpha = span === 0 ? 0 : (t - knots[i]) / span;
+        d[j] = d[j].map((v, c) => (1 - alpha) * d[j - 1][c] + alpha * v);
+      }
+    }
+
+    const [x, y, w] = d[degree];
+    points.push([x / w, y / w]);
+  }
+
+  return points;
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/%%[cC]/g, 'Ø')
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±')
+    .replace(/%%[uUoOkK]/g, '');
+}
+
+// Strip MTEXT inline formatting codes, keeping paragraph breaks as newlines
+function cleanMText(text: string): string {
+  return cleanText(text)
+    .replace(/\\\\/g, '\u0000')
+    .replace(/\\\{/g, '\u0001')
+    .replace(/\\\}/g, '\u0002')
+    .replace(/\\P/g, '\n')
+    .replace(/\\S([^^;]*)\^([^;]*);/g, '$1/$2')
+    .replace(/\\[ACcFfHhQTtWp][^;]*;/g, '')
+    .replace(/\\[LlOoKkN]/g, '')
+    .replace(/\\~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\u0000/g, '\\')
+    .replace(/\u0001/g, '{')
+    .replace(/\u0002/g, '}');
+}
+
+function pushPath(
+  out: DrawingPrimitive[],
+  entity: DxfEntity,
+  ctx: RenderContext,
+  points: [number, number][],
+  closed: boolean,
+  worldCoordinates = false,
+) {
+  if (points.length < 2) return;
+  const m = worldCoordinates ? ctx.matrix : multiply(ctx.matrix, ocsMatrix(entity));
+  out.push({
+    type: 'path',
+    layer: resolveLayer(entity, ctx),
+    color: resolveColor(entity, ctx),
+    points: points.map(([x, y]) => apply(m, x, y)),
+    closed,
+  });
+}
+
+function pushText(
+  out: DrawingPrimitive[],
+  entity: DxfEntity,
+  ctx: RenderContext,
+  text: string,
+  x: number,
+  y: number,
+  height: number,
+  rotation: number,
+  align: DrawingText['align'],
+  baseline: DrawingText['baseline'],
+) {
+  if (!text.trim()) return;
+  const m = multiply(ctx.matrix, ocsMatrix(entity));
+  const r = rotation * Math.PI / 180;
+  const [px, py] = apply(m, x, y);
+  // Direction and up vectors run through the linear part of the matrix only
+  const dirX = m[0] * Math.cos(r) + m[2] * Math.sin(r);
+  const dirY = m[1] * Math.cos(r) + m[3] * Math.sin(r);
+  const upX = -m[0] * Math.sin(r) + m[2] * Math.cos(r);
+  const upY = -m[1] * Math.sin(r) + m[3] * Math.cos(r);
+
+  out.push({
+    type: 'text',
+    layer: resolveLayer(entity, ctx),
+    color: resolveColor(entity, ctx),
+    x: px,
+    y: py,
+    height: height * Math.hypot(upX, upY),
+    rotation: Math.atan2(dirY, dirX) * 180 / Math.PI,
+    text,
+    align,
+    baseline,
+  });
+}
+
+function addText(out: DrawingPrimitive[], entity: DxfEntity, ctx: RenderContext) {
+  const hAlign = num(entity, 72);
+  const vAlign = num(entity, 73);
+  const aligned = hAlign !== 0 || vAlign !== 0;
+  const x = aligned ? num(entity, 11, num(entity, 10)) : num(entity, 10);
+  const y = aligned ? num(entity, 21, num(entity, 20)) : num(entity, 20);
+  const align = hAlign === 1 || hAlign === 4 ? 'center' : hAlign === 2 ? 'right' : 'left';
+  const baseline = hAlign === 4 || vAlign === 2 ? 'middle' : vAlign === 1 ? 'bottom' : vAlign === 3 ? 'top' : 'alphabetic';
+
+  pushText(out, entity, ctx, cleanText(str(entity, 1) ?? ''), x, y, num(entity, 40, 1), num(entity, 50), align, baseline);
+}
+
+function addMText(out: DrawingPrimitive[], entity: DxfEntity, ctx: RenderContext) {
+  const raw = entity.groups.filter(g => g.code === 3).map(g => g.value).join('') + (str(entity, 1) ?? '');
+  const lines = cleanMText(raw).split('\n');
+  const height = num(entity, 40, 1);
+  const spacing = height * 1.667 * num(entity, 44, 1);
+  const attachment = num(entity, 71, 1);
+  const hasDirection = entity.groups.some(g => g.code === 11);
+  const rotation = hasDirection
+    ? Math.atan2(num(entity, 21), num(entity, 11)) * 180 / Math.PI
+    : num(entity, 50);
+  const align = [2, 5, 8].includes(attachment) ? 'center' : [3, 6, 9].includes(attachment) ? 'right' : 'left';
+  const baseline = attachment <= 3 ? 'top' : attachment <= 6 ? 'middle' : 'bottom';
+  const r = rotation * Math.PI / 180;
+
+  lines.forEach((line, i) => {
+    const offset = baseline === 'top' ? -i * spacing
+      : baseline === 'middle' ? ((lines.length - 1) / 2 - i) * spacing
+      : (lines.length - 1 - i) * spacing;
+    const x = num(entity, 10) - Math.sin(r) * offset;
+    const y = num(entity, 20) + Math.cos(r) * offset;
+    pushText(out, entity, ctx, line, x, y, height, rotation, align, baseline);
+  });
+}
+
+function addInsert(out: DrawingPrimitive[], entity: DxfEntity, ctx: RenderContext, blocks: Map<string, DxfBlock>) {
+  const block = blocks.get(str(entity, 2) ?? '');
+  const childCtx = { layer: resolveLayer(entity, ctx), color: resolveColor(entity, ctx), depth: ctx.depth + 1, budget: ctx.budget };
+
+  if (block && ctx.depth < MAX_INSERT_DEPTH) {
+    const columns = Math.max(1, num(entity, 70, 1));
+    const rows = Math.max(1, num(entity, 71, 1));
+    const base = multiply(
+      multiply(ctx.matrix, ocsMatrix(entity)),
+      multiply(translate(num(entity, 10), num(entity, 20)), rotate(num(entity, 50))),
+    );
+    const local = multiply(
+      scale(num(entity, 41, 1), num(entity, 42, 1)),
+      translate(-block.basePoint[0], -block.basePoint[1]),
+    );
+
+    for (let row = 0; row < rows && !ctx.budget.truncated; row++) {
+      for (let column = 0; column < columns && row * columns + column < MAX_ARRAY_CELLS && !ctx.budget.truncated; column++) {
+        const cell = translate(column * num(entity, 44), row * num(entity, 45));
+        const matrix = multiply(multiply(base, cell), local);
+        addEntities(out, block.entities, { ...childCtx, matrix }, blocks);
+      }
+    }
+  }
+
+  // Attribute values are stored in world coordinates alongside the INSERT
+  for (const attrib of entity.children) {
+    if ((num(attrib, 70) & 1) === 0) addText(out, attrib, ctx);
+  }
+}
+
+function addEntities(out: DrawingPrimitive[], entities: DxfEntity[], ctx: RenderContext, blocks: Map<string, DxfBlock>) {
+  for (const entity of entities) {
+    if (ctx.budget.entities <= 0) {
+      ctx.budget.truncated = true;
+      return;
+    }
+    ctx.budget.entities--;
+
+    switch (entity.type) {
+      case 'LINE':
+        pushPath(out, entity, ctx, [[num(entity, 10), num(entity, 20)], [num(entity, 11), num(entity, 21)]], false, true);
+        break;
+      case 'LWPOLYLINE': {
+        const closed = (num(entity, 70) & 1) !== 0;
+        pushPath(out, entity, ctx, vertexPoints(lwPolylineVertices(entity), closed), closed);
+        break;
+      }
+      case 'POLYLINE': {
+        const closed = (num(entity, 70) & 1) !== 0;
+        const vertices = entity.children
+          .filter(vertex => (num(vertex, 70) & 128) === 0)
+          .map(vertex => ({ x: num(vertex, 10), y: num(vertex, 20), bulge: num(vertex, 42) }));
+        pushPath(out, entity, ctx, vertexPoints(vertices, closed), closed);
+        break;
+      }
+      case 'CIRCLE':
+        pushPath(out, entity, ctx, arcPoints(num(entity, 10), num(entity, 20), num(entity, 40), 0, Math.PI * 2), true);
+        break;
+      case 'ARC':
+        pushPath(out, entity, ctx, arcPoints(
+          num(entity, 10), num(entity, 20), num(entity, 40),
+          num(entity, 50) * Math.PI / 180, num(entity, 51) * Math.PI / 180,
+        ), false);
+        break;
+      case 'ELLIPSE': {
+        const cx = num(entity, 10);
+        const cy = num(entity, 20);
+        const mx = num(entity, 11);
+        const my = num(entity, 21);
+        // The minor axis direction follows the extrusion vector
+        const ratio = num(entity, 40, 1) * (num(entity, 230, 1) < 0 ? -1 : 1);
+        let start = num(entity, 41);
+        let end = num(entity, 42, Math.PI * 2);
+        while (end <= start) end += Math.PI * 2;
+        const full = end - start >= Math.PI * 2 - 1e-9;
+        const segments = Math.max(8, Math.ceil((end - start) / (Math.PI * 2) * CIRCLE_SEGMENTS));
+        const points: [number, number][] = [];
+        for (let i = 0; i <= segments; i++) {
+          const t = start + (end - start) * i / segments;
+          points.push([
+            cx + mx * Math.cos(t) - my * ratio * Math.sin(t),
+            cy + my * Math.cos(t) + mx * ratio * Math.sin(t),
+          ]);
+        }
+        pushPath(out, entity, ctx, points, full, true);
+        break;
+      }
+      case 'SPLINE':
+        pushPath(out, entity, ctx, splinePoints(entity), (num(entity, 70) & 1) !== 0, true);
+        break;
+      case 'TEXT':
+        addText(out, entity, ctx);
+        break;
+      case 'MTEXT':
+        addMText(out, entity, ctx);
+        break;
+      case 'INSERT':
+        addInsert(out, entity, ctx, blocks);
+        break;
+      case 'DIMENSION': {
+        // Dimension graphics live in an anonymous block already placed in world coordinates
+        const block = blocks.get(str(entity, 2) ?? '');
+        if (block && ctx.depth < MAX_INSERT_DEPTH) {
+          addEntities(out, block.entities, {
+            ...ctx,
+            layer: resolveLayer(entity, ctx),
+            color: resolveColor(entity, ctx),
+            depth: ctx.depth + 1,
+          }, blocks);
+        }
+        break;
+      }
+    }
+  }
+}
+
+function computeExtents(primitives: DrawingPrimitive[]): DrawingExtents | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  const include = (x: number, y: number) => {
+    if (!isFinite(x) || !isFinite(y)) return;
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+
+  for (const primitive of primitives) {
+    if (primitive.type === 'path') {
+      primitive.points.forEach(([x, y]) => include(x, y));
+    } else {
+      include(primitive.x, primitive.y);
+    }
+  }
+
+  return minX === Infinity ? null : { minX, minY, maxX, maxY };
+}
+
+// Flatten a parsed DXF document into tessellated, world-space drawing primitives
+export function buildDrawing(document: DxfDocument): Drawing {
+  const blocks = new Map(document.blocks.map(block => [block.name, block]));
+  const primitives: DrawingPrimitive[] = [];
+  const budget: RenderBudget = { entities: MAX_RENDERED_ENTITIES, truncated: false };
+
+  addEntities(primitives, document.entities, { matrix: IDENTITY, layer: null, color: null, depth: 0, budget }, blocks);
+
+  return {
+    layers: document.layers.map(layer => ({
+      name: layer.name,
+      color: layer.trueColor !== null ? trueColorToHex(layer.trueColor) : aciToHex(layer.color),
+    })),
+    extents: computeExtents(primitives),
+    primitives,
+    truncated: budget.truncated,
+  };
+}
@@ -0,0 +1,366 @@
+import fs from 'fs';
+import { describeRelease } from './cad-signature';
+
+export interface DxfGroup {
+  code: number;
+  value: string;
+}
+
+export interface DxfLayer {
+  name: string;
+  color: number;
+  trueColor: number | null;
+  linetype: string;
+  on: boolean;
+  frozen: boolean;
+  locked: boolean;
+}
+
+export interface DxfEntity {
+  type: string;
+  layer: string;
+  handle: string | null;
+  color: number | null;
+  groups: DxfGroup[];
+  // VERTEX records of a POLYLINE and ATTRIB records of an INSERT
+  children: DxfEntity[];
+}
+
+export interface DxfBlock {
+  name: string;
+  layer: string;
+  basePoint: [number, number, number];
+  entities: DxfEntity[];
+}
+
+export interface DxfDocument {
+  header: Record<string, string | number[]>;
+  layers: DxfLayer[];
+  blocks: DxfBlock[];
+  entities: DxfEntity[];
+  // Device-independent bitmap from the THUMBNAILIMAGE section
+  thumbnail: Buffer | null;
+}
+
+export interface DxfSummary {
+  viewerType: 'dxf';
+  version: string;
+  acadVersion: string | null;
+  units: string;
+  insUnits: number;
+  entities: number;
+  entityCounts: Record<string, number>;
+  layers: DxfLayer[];
+  blocks: Array<{ name: string; basePoint: [number, number, number]; entities: number }>;
+  extents: { min: number[]; max: number[] } | null;
+}
+
+// $INSUNITS drawing unit codes
+const INSUNITS: Record<number, string> = {
+  0: 'Unitless',
+  1: 'Inches',
+  2: 'Feet',
+  3: 'Miles',
+  4: 'Millimeters',
+  5: 'Centimeters',
+  6: 'Meters',
+  7: 'Kilometers',
+  8: 'Microinches',
+  9: 'Mils',
+  10: 'Yards',
+  11: 'Angstroms',
+  12: 'Nanometers',
+  13: 'Microns',
+  14: 'Decimeters',
+  15: 'Decameters',
+  16: 'Hectometers',
+  17: 'Gigameters',
+  18: 'Astronomical units',
+  19: 'Light years',
+  20: 'Parsecs',
+};
+
+const BINARY_DXF_SENTINEL = 'AutoCAD Binary DXF';
+
+const MB = 1024 * 1024;
+// Largest DXF parsed locally, e.g. MAX_DXF_PARSE_SIZE_MB=100
+export const MAX_DXF_PARSE_SIZE = (Number(process.env.MAX_DXF_PARSE_SIZE_MB) || 50) * MB;
+
+export class DxfParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DxfParseError';
+  }
+}
+
+// Split the ASCII DXF stream into group code / value pairs
+function tokenize(text: string): DxfGroup[] {
+  const lines = text.split(/\r\n|\r|\n/);
+  const groups: DxfGroup[] = [];
+
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const codeLine = lines[i].trim();
+    if (codeLine === '' && i === lines.length - 2) break;
+
+    const code = parseInt(codeLine, 10);
+    if (isNaN(code)) {
+      throw new DxfParseError(`Invalid group code "${codeLine}" at line ${i + 1}`);
+    }
+    groups.push({ code, value: lines[i + 1].trim() });
+  }
+
+  return groups;
+}
+
+// Group pairs into records that each start with a code 0 marker
+function splitRecords(groups: DxfGroup[]): DxfGroup[][] {
+  const records: DxfGroup[][] = [];
+  let current: DxfGroup[] | null = null;
+
+  for (const group of groups) {
+    if (group.code === 0) {
+      current = [group];
+      records.push(current);
+    } else if (current) {
+      current.push(group);
+    }
+  }
+
+  return records;
+}
+
+function groupValue(groups: DxfGroup[], code: number): string | undefined {
+  return groups.find(g => g.code === code)?.value;
+}
+
+function toEntity(record: DxfGroup[]): DxfEntity {
+  const color = groupValue(record, 62);
+  return {
+    type: record[0].value,
+    layer: groupValue(record, 8) ?? '0',
+    handle: groupValue(record, 5) ?? null,
+    color: color !== undefined ? parseInt(color, 10) : null,
+    groups: record.slice(1),
+    children: [],
+  };
+}
+
+// Fold VERTEX/ATTRIB sequences into their owning entity and drop SEQEND markers
+function collectEntities(records: DxfGroup[][]): DxfEntity[] {
+  const entities: DxfEntity[] = [];
+  let owner: DxfEntity | null = null;
+
+  for (const record of records) {
+    const type = record[0].value;
+    if (type === 'SEQEND') {
+      owner = null;
+    } else if ((type === 'VERTEX' || type === 'ATTRIB') && owner) {
+      owner.children.push(toEntity(record));
+    } else {
+      const entity = toEntity(record);
+      entities.push(entity);
+      owner = type === 'POLYLINE' || type === 'INSERT' ? entity : null;
+    }
+  }
+
+  return entities;
+}
+
+function parseHeader(groups: DxfGroup[]): Record<string, string | number[]> {
+  const header: Record<string, string | number[]> = {};
+  let variable: string | null = null;
+
+  for (const group of groups) {
+    if (group.code === 9) {
+      variable = group.value;
+      continue;
+    }
+    if (!variable) continue;
+
+    // Point variables are spread over 10/20/30 codes
+    if (group.code >= 10 && group.code <= 39) {
+      const point = Array.isArray(header[variable]) ? header[variable] as number[] : [];
+      point.push(parseFloat(group.value));
+      header[variable] = point;
+    } else {
+      header[variable] = group.value;
+    }
+  }
+
+  return header;
+}
+
+function parseLayers(groups: DxfGroup[]): DxfLayer[] {
+  const layers: DxfLayer[] = [];
+  let inLayerTable = false;
+
+  for (const record of splitRecords(groups)) {
+    const type = record[0].value;
+    if (type === 'TABLE') {
+      inLayerTable = groupValue(record, 2) === 'LAYER';
+      continue;
+    }
+    if (type === 'ENDTAB') {
+      inLayerTable = false;
+      continue;
+    }
+    if (!inLayerTable || type !== 'LAYER') continue;
+
+    const color = parseInt(groupValue(record, 62) ?? '7', 10);
+    const flags = parseInt(groupValue(record, 70) ?? '0', 10);
+    const trueColor = groupValue(record, 420);
+
+    layers.push({
+      name: groupValue(record, 2) ?? '0',
+      // A negative colour number marks the layer as switched off
+      color: Math.abs(color),
+      trueColor: trueColor !== undefined ? parseInt(trueColor, 10) : null,
+      linetype: groupValue(record, 6) ?? 'CONTINUOUS',
+      on: color >= 0,
+      frozen: (flags & 1) !== 0,
+      locked: (flags & 4) !== 0,
+    });
+  }
+
+  return layers;
+}
+
+function parseBlocks(groups: DxfGroup[]): DxfBlock[] {
+  const blocks: DxfBlock[] = [];
+  let current: DxfBlock | null = null;
+  let records: DxfGroup[][] = [];
+
+  for (const record of splitRecords(groups)) {
+    const type = record[0].value;
+    if (type === 'BLOCK') {
+      current = {
+        name: groupValue(record, 2) ?? '',
+        layer: groupValue(record, 8) ?? '0',
+        basePoint: [
+          parseFloat(groupValue(record, 10) ?? '0'),
+          parseFloat(groupValue(record, 20) ?? '0'),
+          parseFloat(groupValue(record, 30) ?? '0'),
+        ],
+        entities: [],
+      };
+      records = [];
+      blocks.push(current);
+    } else if (type === 'ENDBLK') {
+      if (current) current.entities = collectEntities(records);
+      current = null;
+    } else if (current) {
+      records.push(record);
+    }
+  }
+
+  return blocks;
+}
+
+// Parse an ASCII DXF drawing into its header, layer table, blocks and entities
+export function parseDxf(text: string): DxfDocument {
+  text = text.replace(/^\uFEFF/, '');
+  if (text.startsWith(BINARY_DXF_SENTINEL)) {
+    throw new DxfParseError('Binary DXF files are not supported');
+  }
+
+  const groups = tokenize(text);
+  const document: DxfDocument = { header: {}, layers: [], blocks: [], entities: [], thumbnail: null };
+
+  let section: string | null = null;
+  let sectionGroups: DxfGroup[] = [];
+
+  for (let i = 0; i < groups.length; i++) {
+    const group = groups[i];
+
+    if (group.code === 0 && group.value === 'SECTION') {
+      const name = groups[i + 1];
+      if (!name || name.code !== 2) {
+        throw new DxfParseError('SECTION without a name');
+      }
+      section = name.value;
+      sectionGroups = [];
+      i++;
+      continue;
+    }
+
+    if (group.code === 0 && group.value === 'ENDSEC') {
+      switch (section) {
+        case 'HEADER':
+          document.header = parseHeader(sectionGroups);
+          break;
+        case 'TABLES':
+          document.layers = parseLayers(sectionGroups);
+          break;
+        case 'BLOCKS':
+          document.blocks = parseBlocks(sectionGroups);
+          break;
+        case 'ENTITIES':
+          document.entities = collectEntities(splitRecords(sectionGroups));
+          break;
+        case 'THUMBNAILIMAGE': {
+          const hex = sectionGroups.filter(g => g.code === 310).map(g => g.value).join('');
+          document.thumbnail = hex ? Buffer.from(hex, 'hex') : null;
+          break;
+        }
+      }
+      section = null;
+      continue;
+    }
+
+    if (group.code === 0 && group.value === 'EOF') break;
+
+    if (section) {
+      sectionGroups.push(group);
+    }
+  }
+
+  if (section) {
+    throw new DxfParseError(`Unterminated ${section} section`);
+  }
+
+  return document;
+}
+
+export function summarizeDxf(document: DxfDocument): DxfSummary {
+  const entityCounts: Record<string, number> = {};
+  for (const entity of document.entities) {
+    entityCounts[entity.type] = (entityCounts[entity.type] || 0) + 1;
+  }
+
+  const acadVersion = typeof document.header.$ACADVER === 'string' ? document.header.$ACADVER : null;
+  const insUnits = parseInt(String(document.header.$INSUNITS ?? '0'), 10) || 0;
+  const extMin = document.header.$EXTMIN;
+  const extMax = document.header.$EXTMAX;
+
+  return {
+    viewerType: 'dxf',
+    version: acadVersion ? describeRelease(acadVersion) : 'Unknown',
+    acadVersion,
+    units: INSUNITS[insUnits] || 'Unitless',
+    insUnits,
+    entities: document.entities.length,
+    entityCounts,
+    layers: document.layers,
+    // Model and paper space records are not user block definitions
+    blocks: document.blocks
+      .filter(block => !block.name.startsWith('*'))
+      .map(block => ({
+        name: block.name,
+        basePoint: block.basePoint,
+        entities: block.entities.length,
+      })),
+    extents: Array.isArray(extMin) && Array.isArray(extMax) ? { min: extMin, max: extMax } : null,
+  };
+}
+
+export async function parseDxfFile(filePath: string): Promise<DxfDocument> {
+  // The whole drawing is held in memory while parsing, so an upload near the upload limit could exhaust the heap
+  const { size } = await fs.promises.stat(filePath);
+  if (size > MAX_DXF_PARSE_SIZE) {
+    throw new DxfParseError(
+      `Drawing is ${Math.ceil(size / MB)} MB; DXF files over ${MAX_DXF_PARSE_SIZE / MB} MB are not parsed on this server`
+    );
+  }
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  return parseDxf(text);
+}
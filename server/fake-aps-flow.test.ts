@@ -0,0 +1,152 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { File } from '@shared/schema';
+import { createFakeApsApp } from './fake-aps';
+
+// The AutoCAD flow end to end against the fake APS, with files kept in memory and uploads in a temporary
+// directory, so it never touches a configured database or the real uploads/
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+// A DWG header is enough: APS does the translating and the fake APS never reads the drawing
+function fakeDwg(size: number): Buffer {
+  const data = crypto.randomBytes(size);
+  data.write('AC1032', 0, 'latin1');
+  return data;
+}
+
+describe('AutoCAD flow against the fake APS', () => {
+  let fakeAps: Server;
+  let server: Server;
+  let baseUrl: string;
+  let uploadsDir: string;
+  let stopProcessing: () => void;
+  let file: File;
+
+  async function api(method: string, url: string, body?: unknown, expected = 200): Promise<any> {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    assert.equal(response.status, expected, `${method} ${url}: ${text}`);
+    return text ? JSON.parse(text) : null;
+  }
+
+  before(async () => {
+    fakeAps = createFakeApsApp({ pollsToComplete: 2 }).listen(0, '127.0.0.1');
+    await new Promise(resolve => fakeAps.once('listening', resolve));
+    uploadsDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'autocad-viewer-flow-'));
+
+    // Read when the server modules load, so they are set before those are imported
+    delete process.env.DATABASE_URL;
+    process.env.UPLOADS_DIR = uploadsDir;
+    process.env.APS_BASE_URL = `http://127.0.0.1:${(fakeAps.address() as AddressInfo).port}`;
+    process.env.APS_CLIENT_ID = 'fake';
+    process.env.APS_CLIENT_SECRET = 'fake';
+    process.env.APS_OUTPUT_FORMATS = 'pdf';
+    process.env.APS_TRANSLATION_POLL_MS = '100';
+
+    const { registerRoutes } = await import('./routes');
+    const { jobQueue } = await import('./job-queue');
+    stopProcessing = () => jobQueue.stop();
+
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app, { maintenance: false });
+    baseUrl = await listen(server);
+  });
+
+  after(async () => {
+    stopProcessing?.();
+    server?.closeAllConnections();
+    server?.close();
+    fakeAps?.closeAllConnections();
+    fakeAps?.close();
+    await fs.promises.rm(uploadsDir, { recursive: true, force: true });
+  });
+
+  it('uploads a drawing in checksummed chunks', async () => {
+    const { chunkSize } = await api('GET', '/api/uploads/limits');
+    // Two and a half chunks, so the last one is short
+    const data = fakeDwg(Math.floor(chunkSize * 2.5));
+    const session = await api('POST', '/api/uploads', { name: 'flow.dwg', size: data.length, mimeType: '' }, 201);
+
+    for (let index = 0; index < session.totalChunks; index++) {
+      const chunk = data.subarray(index * chunkSize, (index + 1) * chunkSize);
+      const response = await fetch(`${baseUrl}/api/uploads/${session.uploadId}/parts/${index}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Chunk-Checksum': crypto.createHash('sha256').update(chunk).digest('hex'),
+        },
+        body: chunk,
+      });
+      assert.ok(response.ok, `chunk ${index}: ${await response.text()}`);
+    }
+
+    ({ file } = await api('POST', `/api/uploads/${session.uploadId}/complete`));
+    assert.equal(fs.readFileSync(file.filePath).equals(data), true);
+  });
+
+  it('translates it through the fake APS', async () => {
+    const started = Date.now();
+    while (file.status !== 'ready') {
+      assert.notEqual(file.status, 'error', `processing failed: ${file.errorMessage}`);
+      assert.ok(Date.now() - started < 30000, `file still ${file.status} after 30s`);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      file = await api('GET', `/api/files/${file.id}`);
+    }
+
+    const metadata = JSON.parse(file.metadata || '{}');
+    assert.equal(metadata.viewerType, 'aps');
+    assert.ok(metadata.urn);
+  });
+
+  it('downloads its PDF derivative', async () => {
+    const { translation } = await api('GET', `/api/files/${file.id}/derivatives`);
+    const pdf = translation.outputs.find((output: { outputType: string }) => output.outputType === 'pdf');
+    assert.equal(pdf?.status, 'success');
+
+    const download = await fetch(`${baseUrl}/api/files/${file.id}/derivatives/${pdf.files[0].guid}`);
+    assert.equal(download.status, 200);
+    assert.match(await download.text(), /^Fake pdf derivative/);
+  });
+
+  it('hands the viewer a read-only token', async () => {
+    const token = await api('GET', '/api/aps/token');
+    assert.ok(token.access_token);
+    assert.ok(token.expires_in > 0);
+  });
+
+  it('moves it to the trash', async () => {
+    await api('DELETE', `/api/files/${file.id}`);
+
+    const files: File[] = await api('GET', '/api/files');
+    assert.equal(files.some(listed => listed.id === file.id), false);
+    await api('GET', `/api/files/${file.id}`, undefined, 404);
+    const trash = await api('GET', '/api/trash');
+    assert.equal(trash.files.some((listed: File) => listed.id === file.id), true);
+  });
+
+  it('deletes it for good, with its local files', async () => {
+    await api('DELETE', `/api/trash/${file.id}`);
+
+    const trash = await api('GET', '/api/trash');
+    assert.deepEqual(trash.files, []);
+    assert.deepEqual(fs.readdirSync(uploadsDir), []);
+  });
+});
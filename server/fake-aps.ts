@@ -0,0 +1,340 @@
+import express, { type Request, type Response, type NextFunction } from 'express';
+import crypto from 'crypto';
+import { pathToFileURL } from 'url';
+
+// A stand-in for the parts of APS this app uses: authentication, OSS buckets, signed S3 uploads
+// and Model Derivative jobs. Point APS_BASE_URL at it to run the whole AutoCAD flow offline.
+
+export interface FakeApsOptions {
+  // Manifest polls a translation takes before it succeeds
+  pollsToComplete?: number;
+  // Objects whose key matches this pattern fail to translate
+  failPattern?: RegExp;
+  // Objects whose key matches this pattern translate with a warning
+  warnPattern?: RegExp;
+}
+
+interface FakeObject {
+  bucketKey: string;
+  objectKey: string;
+  size: number;
+}
+
+interface FakeUpload {
+  bucketKey: string;
+  objectKey: string;
+  parts: Map<number, { size: number; eTag: string }>;
+}
+
+interface FakeTranslation {
+  objectKey: string;
+  // Manifest polls seen by each requested output type
+  outputs: Map<string, number>;
+  fails: boolean;
+}
+
+// Files produced by outputs other than svf2, which are only streamed by the viewer
+const OUTPUT_FILES: Record<string, { name: string; mime: string }> = {
+  thumbnail: { name: 'thumbnail.png', mime: 'image/png' },
+  pdf: { name: 'layouts.pdf', mime: 'application/pdf' },
+  ifc: { name: 'model.ifc', mime: 'application/octet-stream' },
+  obj: { name: 'model.obj', mime: 'application/octet-stream' },
+  stl: { name: 'model.stl', mime: 'application/octet-stream' },
+};
+
+const TOKEN_LIFETIME_SECONDS = 3599;
+
+function decodeUrn(urn: string): string {
+  return Buffer.from(urn.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString();
+}
+
+function derivativeGuid(urn: string, outputType: string): string {
+  return crypto.createHash('md5').update(`${urn}/${outputType}`).digest('hex');
+}
+
+function derivativeUrn(urn: string, outputType: string): string {
+  return `urn:adsk.viewing:fs.file:${urn}/output/${OUTPUT_FILES[outputType].name}`;
+}
+
+function fakeDerivativeContent(outputType: string, objectKey: string): string {
+  return `Fake ${outputType} derivative of ${objectKey}\n`;
+}
+
+function objectId(bucketKey: string, objectKey: string): string {
+  return `urn:adsk.objects:os.object:${bucketKey}/${objectKey}`;
+}
+
+export function createFakeApsApp({
+  pollsToComplete = Number(process.env.FAKE_APS_POLLS) || 3,
+  failPattern = /fail/i,
+  warnPattern = /warn/i
+}: FakeApsOptions = {}) {
+  const app = express();
+  // Bucket keys and their retention policies
+  const buckets = new Map<string, string>();
+  const objects = new Map<string, FakeObject>();
+  const uploads = new Map<string, FakeUpload>();
+  const translations = new Map<string, FakeTranslation>();
+  // Issued tokens and their scopes, so a read-only viewer token is refused on write endpoints
+  const tokens = new Map<string, string[]>();
+  // CDN cookie signatures and the derivative each one grants access to
+  const signatures = new Map<string, string>();
+
+  // Accepts a token holding any of the given scopes
+  const requireScope = (...accepted: string[]) => (req: Request, res: Response, next: NextFunction) => {
+    const scopes = tokens.get(req.headers.authorization?.replace(/^Bearer /, '') || '');
+    if (!scopes) {
+      return res.status(401).json({ developerMessage: 'The Authorization header is missing or invalid' });
+    }
+    if (!accepted.some(scope => scopes.includes(scope))) {
+      return res.status(403).json({ developerMessage: `The token needs one of these scopes: ${accepted.join(', ')}` });
+    }
+    next();
+  };
+
+  app.post('/authentication/v2/token', express.urlencoded({ extended: false }), (req, res) => {
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      return res.status(401).json({ developerMessage: 'Client credentials are required' });
+    }
+    const token = crypto.randomBytes(16).toString('hex');
+    tokens.set(token, String(req.body.scope || '').split(' ').filter(Boolean));
+    res.json({ access_token: token, token_type: 'Bearer', expires_in: TOKEN_LIFETIME_SECONDS });
+  });
+
+  app.post('/oss/v2/buckets', requireScope('bucket:create'), express.json(), (req, res) => {
+    const { bucketKey, policyKey } = req.body;
+    if (buckets.has(bucketKey)) {
+      return res.status(409).json({ reason: 'Bucket already exists' });
+    }
+    buckets.set(bucketKey, policyKey);
+    res.json({ bucketKey, bucketOwner: 'fake', createdDate: Date.now(), permissions: [], policyKey });
+  });
+
+  app.get('/oss/v2/buckets/:bucketKey/details', requireScope('bucket:read'), (req, res) => {
+    const { bucketKey } = req.params;
+    const policyKey = buckets.get(bucketKey);
+    if (!policyKey) return res.status(404).json({ reason: 'Bucket not found' });
+    res.json({ bucketKey, bucketOwner: 'fake', createdDate: Date.now(), permissions: [], policyKey });
+  });
+
+  app.delete('/oss/v2/buckets/:bucketKey', requireScope('bucket:delete'), (req, res) => {
+    const { bucketKey } = req.params;
+    if (!buckets.delete(bucketKey)) return res.status(404).json({ reason: 'Bucket not found' });
+    objects.forEach((object, id) => {
+      if (object.bucketKey === bucketKey) objects.delete(id);
+    });
+    res.status(200).end();
+  });
+
+  app.delete('/oss/v2/buckets/:bucketKey/objects/:objectKey', requireScope('data:write'), (req, res) => {
+    const { bucketKey, objectKey } = req.params;
+    if (!objects.delete(objectId(bucketKey, objectKey))) return res.status(404).json({ reason: 'Object not found' });
+    res.status(200).end();
+  });
+
+  // Hand out signed URLs that point back at this server
+  app.get('/oss/v2/buckets/:bucketKey/objects/:objectKey/signeds3upload', requireScope('data:write'), (req, res) => {
+    const { bucketKey, objectKey } = req.params;
+    if (!buckets.has(bucketKey)) return res.status(404).json({ reason: 'Bucket not found' });
+
+    const firstPart = Number(req.query.firstPart) || 1;
+    const parts = Math.min(Number(req.query.parts) || 1, 25);
+    let uploadKey = req.query.uploadKey as string | undefined;
+
+    if (!uploadKey) {
+      uploadKey = crypto.randomBytes(16).toString('hex');
+      uploads.set(uploadKey, { bucketKey, objectKey, parts: new Map() });
+    } else if (!uploads.has(uploadKey)) {
+      return res.status(404).json({ reason: 'Upload not found' });
+    }
+
+    const origin = `${req.protocol}://${req.get('host')}`;
+    res.json({
+      uploadKey,
+      urls: Array.from({ length: parts }, (_, i) => `${origin}/fake-s3/${uploadKey}/${firstPart + i}`)
+    });
+  });
+
+  // The S3 side: parts are hashed and counted, not kept
+  app.put('/fake-s3/:uploadKey/:part', async (req, res) => {
+    const upload = uploads.get(req.params.uploadKey);
+    if (!upload) return res.status(404).end();
+
+    const hash = crypto.createHash('md5');
+    let size = 0;
+    for await (const chunk of req) {
+      hash.update(chunk as Buffer);
+      size += (chunk as Buffer).length;
+    }
+
+    const eTag = `"${hash.digest('hex')}"`;
+    upload.parts.set(Number(req.params.part), { size, eTag });
+    res.setHeader('ETag', eTag);
+    res.end();
+  });
+
+  app.post('/oss/v2/buckets/:bucketKey/objects/:objectKey/signeds3upload', requireScope('data:write'), express.json(), (req, res) => {
+    const { bucketKey, objectKey } = req.params;
+    const { uploadKey, eTags } = req.body;
+    const upload = uploads.get(uploadKey);
+    if (!upload || upload.bucketKey !== bucketKey || upload.objectKey !== objectKey) {
+      return res.status(404).json({ reason: 'Upload not found' });
+    }
+
+    const parts = Array.from(upload.parts.keys()).sort((a, b) => a - b);
+    const complete = parts.every((part, i) => part === i + 1);
+    if (!complete || !Array.isArray(eTags) || eTags.length !== parts.length ||
+        eTags.some((eTag, i) => eTag !== upload.parts.get(i + 1)!.eTag)) {
+      return res.status(400).json({ reason: 'Parts or ETags do not match the upload' });
+    }
+
+    const size = parts.reduce((total, part) => total + upload.parts.get(part)!.size, 0);
+    uploads.delete(uploadKey);
+    objects.set(objectId(bucketKey, objectKey), { bucketKey, objectKey, size });
+
+    res.json({
+      bucketKey,
+      objectId: objectId(bucketKey, objectKey),
+      objectKey,
+      size,
+      contentType: 'application/octet-stream',
+      location: `${req.protocol}://${req.get('host')}/oss/v2/buckets/${bucketKey}/objects/${objectKey}`
+    });
+  });
+
+  app.post('/modelderivative/v2/designdata/job', requireScope('data:read'), express.json(), (req, res) => {
+    const urn: string = req.body.input?.urn;
+    const object = urn ? objects.get(decodeUrn(urn)) : undefined;
+    if (!object) return res.status(400).json({ diagnostic: 'Failed to find the source file' });
+
+    const types: string[] = (req.body.output?.formats || [{ type: 'svf2' }]).map((format: any) => format.type);
+    const unknown = types.find(type => type !== 'svf2' && !OUTPUT_FILES[type]);
+    if (unknown) return res.status(400).json({ diagnostic: `Unsupported output format ${unknown}` });
+
+    // Without x-ads-force existing outputs are kept and only missing ones are added
+    let translation = translations.get(urn);
+    if (!translation || req.headers['x-ads-force'] === 'true') {
+      translation = { objectKey: object.objectKey, outputs: new Map(), fails: failPattern.test(object.objectKey) };
+      translations.set(urn, translation);
+    }
+    for (const type of types) {
+      if (!translation.outputs.has(type)) translation.outputs.set(type, 0);
+    }
+    res.json({ result: 'created', urn, acceptedJobs: { output: req.body.output } });
+  });
+
+  app.delete('/modelderivative/v2/designdata/:urn/manifest', requireScope('data:write'), (req, res) => {
+    if (!translations.delete(req.params.urn)) return res.status(404).json({ diagnostic: 'Manifest not found' });
+    res.json({ result: 'success' });
+  });
+
+  // Each poll moves every unfinished output a step further
+  app.get('/modelderivative/v2/designdata/:urn/manifest', requireScope('data:read', 'viewables:read'), (req, res) => {
+    const { urn } = req.params;
+    const translation = translations.get(urn);
+    if (!translation) return res.status(404).json({ diagnostic: 'Manifest not found' });
+
+    const derivatives = Array.from(translation.outputs.entries()).map(([outputType, polls]) => {
+      if (polls < pollsToComplete) translation.outputs.set(outputType, ++polls);
+      const done = polls >= pollsToComplete;
+      const status = !done ? 'inprogress' : translation.fails ? 'failed' : 'success';
+      const percent = done ? 100 : Math.floor((polls / pollsToComplete) * 100);
+      const derivative: Record<string, any> = {
+        outputType,
+        status,
+        progress: done ? 'complete' : `${percent}% complete`,
+        hasThumbnail: 'false',
+      };
+
+      if (status === 'failed') {
+        derivative.messages = [{ type: 'error', code: 'TranslationWorker-InternalFailure', message: 'Scripted translation failure' }];
+      } else if (status === 'success' && outputType === 'svf2') {
+        derivative.name = 'drawing';
+        // Model space and one paper space layout
+        derivative.children = ['Model', 'Layout1'].map(name => ({
+          guid: crypto.createHash('md5').update(`${urn}/${name}`).digest('hex'),
+          type: 'geometry',
+          role: '2d',
+          name,
+          status: 'success'
+        }));
+        if (warnPattern.test(translation.objectKey)) {
+          derivative.messages = [{ type: 'warning', code: 'AutoCAD-XrefMissing', message: ['Missing xref:', 'site-plan.dwg'] }];
+        }
+      } else if (status === 'success') {
+        const { mime } = OUTPUT_FILES[outputType];
+        derivative.children = [{
+          guid: derivativeGuid(urn, outputType),
+          type: 'resource',
+          role: outputType,
+          mime,
+          urn: derivativeUrn(urn, outputType),
+        }];
+      }
+      return { derivative, percent };
+    });
+
+    const statuses = derivatives.map(({ derivative }) => derivative.status);
+    const status = statuses.includes('inprogress') ? 'inprogress' : statuses.includes('failed') ? 'failed' : 'success';
+    const percent = Math.min(100, ...derivatives.map(entry => entry.percent));
+
+    res.json({
+      type: 'manifest',
+      urn,
+      region: 'US',
+      version: '1.0',
+      hasThumbnail: 'false',
+      status,
+      progress: status === 'inprogress' ? `${percent}% complete` : 'complete',
+      derivatives: derivatives.map(entry => entry.derivative)
+    });
+  });
+
+  // Derivative downloads: signed cookies first, then the file from the "CDN"
+  app.get('/modelderivative/v2/designdata/:urn/manifest/:derivativeUrn/signedcookies', requireScope('data:read', 'viewables:read'), (req, res) => {
+    const { urn, derivativeUrn: requested } = req.params;
+    const translation = translations.get(urn);
+    const outputType = translation && Array.from(translation.outputs.keys())
+      .find(type => OUTPUT_FILES[type] && derivativeUrn(urn, type) === requested);
+    if (!translation || !outputType || translation.outputs.get(outputType)! < pollsToComplete || translation.fails) {
+      return res.status(404).json({ diagnostic: 'Derivative not found' });
+    }
+
+    const signature = crypto.randomBytes(16).toString('hex');
+    signatures.set(signature, requested);
+    res.cookie('CloudFront-Policy', 'fake', { httpOnly: true });
+    res.cookie('CloudFront-Key-Pair-Id', 'fake', { httpOnly: true });
+    res.cookie('CloudFront-Signature', signature, { httpOnly: true });
+    res.json({
+      etag: derivativeGuid(urn, outputType),
+      size: Buffer.byteLength(fakeDerivativeContent(outputType, translation.objectKey)),
+      url: `${req.protocol}://${req.get('host')}/fake-cdn/${encodeURIComponent(requested)}`,
+      'content-type': OUTPUT_FILES[outputType].mime,
+      expiration: Date.now() + 60 * 60 * 1000
+    });
+  });
+
+  app.get('/fake-cdn/:derivativeUrn', (req, res) => {
+    const signature = /CloudFront-Signature=([^;]+)/.exec(req.headers.cookie || '')?.[1];
+    if (!signature || signatures.get(signature) !== req.params.derivativeUrn) {
+      return res.status(403).send('Access denied');
+    }
+
+    const [, urn, name] = /^urn:adsk\.viewing:fs\.file:([^/]+)\/output\/(.+)$/.exec(req.params.derivativeUrn) || [];
+    const outputType = Object.keys(OUTPUT_FILES).find(type => OUTPUT_FILES[type].name === name);
+    const translation = urn ? translations.get(urn) : undefined;
+    if (!translation || !outputType) return res.status(404).send('Not found');
+
+    res.type(OUTPUT_FILES[outputType].mime).send(fakeDerivativeContent(outputType, translation.objectKey));
+  });
+
+  return app;
+}
+
+// Run standalone with `npm run fake-aps`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.FAKE_APS_PORT) || 5050;
+  createFakeApsApp().listen(port, () => {
+    console.log(`Fake APS listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,112 @@
+import { FILE_STATUS, type File } from '@shared/schema';
+import { storage } from './storage';
+import { apsService } from './aps-service';
+import { ownsBucket } from './aps-buckets';
+import { abortUpload } from './chunked-uploads';
+import { removeUploadFiles } from './upload-manifest';
+import { jobQueue } from './job-queue';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Trashed files are deleted for good after this many days
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface DeletionFailure {
+  target: string;
+  error: string;
+}
+
+export interface DeletionReport {
+  // False when something could not be removed; the record is then kept so the delete can be retried
+  deleted: boolean;
+  failures: DeletionFailure[];
+}
+
+// Delete a file everywhere it was copied: APS derivatives, OSS object and bucket, the local blob
+// and its sidecars, and finally the record itself
+export async function deleteFileEverywhere(file: File): Promise<DeletionReport> {
+  const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+  const failures: DeletionFailure[] = [];
+
+  const attempt = async (target: string, task: () => Promise<void>) => {
+    try {
+      await task();
+    } catch (error: any) {
+      failures.push({ target, error: error.message });
+    }
+  };
+
+  if (metadata.urn || metadata.bucketKey) {
+    if (!apsService.isConfigured()) {
+      failures.push({ target: 'APS', error: 'APS credentials are not configured, so the cloud copy cannot be removed' });
+    } else {
+      if (metadata.urn) {
+        await attempt('APS derivatives', () => apsService.deleteManifest(metadata.urn));
+      }
+      if (metadata.bucketKey && metadata.objectKey) {
+        await attempt('APS object', () => apsService.deleteObject(metadata.bucketKey, metadata.objectKey));
+      }
+      // Shared buckets hold other files, so only a bucket of the file's own is removed
+      if (ownsBucket(metadata)) {
+        await attempt('APS bucket', () => apsService.deleteBucket(metadata.bucketKey));
+      }
+    }
+  }
+
+  // The local copy is kept while the cloud copy remains, so the record survives a restart and the delete can be retried
+  if (failures.length === 0) {
+    // A file still arriving also has a resumable upload session
+    if (file.status === FILE_STATUS.UPLOADING) {
+      await abortUpload(file.filename).catch(() => undefined);
+    }
+    await attempt('Local file', () => removeUploadFiles(file.filePath));
+  }
+
+  // Kept apart from the processing status, so a file restored from the trash still shows how it was processed
+  if (failures.length > 0) {
+    await storage.updateFileMetadata(file.id, JSON.stringify({ ...metadata, deleteFailures: failures }));
+    return { deleted: false, failures };
+  }
+
+  await storage.deleteFile(file.id);
+  return { deleted: true, failures };
+}
+
+// Move a file to the trash, stopping any processing so it can be restored in a settled state
+export async function moveToTrash(file: File): Promise<File | undefined> {
+  const cancelled = await jobQueue.cancel(file.id);
+  if (cancelled > 0) {
+    await storage.updateFileStatus(file.id, FILE_STATUS.ERROR, 'Processing cancelled');
+  }
+  return storage.setFileDeletedAt(file.id, new Date());
+}
+
+// Permanently delete trashed files older than the retention period
+export async function purgeExpiredTrash(): Promise<number> {
+  const cutoff = Date.now() - TRASH_RETENTION_DAYS * DAY_MS;
+  const expired = (await storage.getAllFiles())
+    .filter(file => file.deletedAt && file.deletedAt.getTime() <= cutoff);
+
+  let purged = 0;
+  for (const file of expired) {
+    const report = await deleteFileEverywhere(file);
+    if (report.deleted) {
+      purged++;
+    } else {
+      console.error(`Could not purge ${file.originalName} from the trash:`, report.failures);
+    }
+  }
+  return purged;
+}
+
+export function startTrashPurge(): void {
+  const purge = () => purgeExpiredTrash()
+    .then((purged) => {
+      if (purged > 0) console.log(`Purged ${purged} files from the trash`);
+    })
+    .catch((error) => console.error('Trash purge error:', error));
+
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { File, InsertFile } from '@shared/schema';
+import { FILE_EVENTS_PATH, type FileEvent } from '@shared/events';
+import { DelegatingStorage } from './delegating-storage';
+
+// Browsers that stop answering pings are dropped after one interval
+const HEARTBEAT_MS = 30000;
+
+const fileEvents = new EventEmitter();
+
+function emitFileEvent(event: FileEvent): void {
+  fileEvents.emit('event', event);
+}
+
+// Publishes an event for every change to a file record, whichever code path made it
+export class EventStorage extends DelegatingStorage {
+  async createFile(insertFile: InsertFile): Promise<File> {
+    const file = await this.inner.createFile(insertFile);
+    emitFileEvent({ type: 'file.created', file });
+    return file;
+  }
+
+  async restoreFile(record: Omit<File, 'id'>): Promise<File> {
+    const file = await this.inner.restoreFile(record);
+    emitFileEvent({ type: 'file.created', file });
+    return file;
+  }
+
+  async updateFileStatus(id: number, status: string, errorMessage?: string): Promise<File | undefined> {
+    const file = await this.inner.updateFileStatus(id, status, errorMessage);
+    if (file) emitFileEvent({ type: 'file.status', file });
+    return file;
+  }
+
+  async updateFileMetadata(id: number, metadata: string): Promise<File | undefined> {
+    const file = await this.inner.updateFileMetadata(id, metadata);
+    if (file) emitFileEvent({ type: 'file.metadata', file });
+    return file;
+  }
+
+  async setFileDeletedAt(id: number, deletedAt: Date | null): Promise<File | undefined> {
+    const file = await this.inner.setFileDeletedAt(id, deletedAt);
+    if (file) emitFileEvent({ type: deletedAt ? 'file.trashed' : 'file.restored', file });
+    return file;
+  }
+
+  async deleteFile(id: number): Promise<boolean> {
+    const deleted = await this.inner.deleteFile(id);
+    if (deleted) emitFileEvent({ type: 'file.deleted', id });
+    return deleted;
+  }
+}
+
+// Serve file events over a WebSocket on the HTTP server. Other upgrade requests,
+// such as the Vite HMR socket in development, are left alone.
+export function attachFileEvents(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on('upgrade', (req, socket, head) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if (pathname !== FILE_EVENTS_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (ws) => {
+    alive.set(ws, true);
+    ws.on('pong', () => alive.set(ws, true));
+  });
+
+  fileEvents.on('event', (event: FileEvent) => {
+    const message = JSON.stringify(event);
+    wss.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) client.send(message);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client) => {
+      if (!alive.get(client)) {
+        client.terminate();
+        return;
+      }
+      alive.set(client, false);
+      client.ping();
+    });
+  }, HEARTBEAT_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+}
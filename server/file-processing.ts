@@ -0,0 +1,93 @@
+import { FILE_STATUS, type File } from '@shared/schema';
+import type { Capabilities } from '@shared/capabilities';
+import { apsService } from './aps-service';
+import { storage } from './storage';
+import { jobQueue, PermanentJobError, type JobContext } from './job-queue';
+import { findProcessor, getProcessors, type FileProcessor } from './file-processors';
+import { registerBuiltinProcessors } from './builtin-processors';
+import { viewableStatus } from './aps-derivatives';
+
+const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+function parseMetadata(file: File): Record<string, any> {
+  return file.metadata ? JSON.parse(file.metadata) : {};
+}
+
+// Concurrency per queue comes from <QUEUE>_JOB_CONCURRENCY, e.g. APS_JOB_CONCURRENCY
+function queueConcurrency(queue: string): number {
+  return Number(process.env[`${queue.toUpperCase()}_JOB_CONCURRENCY`]) || DEFAULT_QUEUE_CONCURRENCY;
+}
+
+function processorFor(file: File): FileProcessor {
+  const processor = findProcessor(file, parseMetadata(file));
+  if (!processor) {
+    throw new PermanentJobError(`No file processor is enabled for ${file.originalName}`);
+  }
+  return processor;
+}
+
+// Run the file through its processor and store the result
+async function runProcessor(file: File, context: JobContext): Promise<void> {
+  const result = await processorFor(file).process(file, {
+    ...context,
+    metadata: parseMetadata(file),
+    saveMetadata: async (metadata) => {
+      await storage.updateFileMetadata(file.id, JSON.stringify(metadata));
+    },
+  });
+
+  context.signal.throwIfAborted();
+  await storage.updateFileMetadata(file.id, JSON.stringify(result));
+  await storage.updateFileStatus(file.id, FILE_STATUS.READY);
+}
+
+// FILE_PROCESSORS can leave a whole file type without a processor; such a file fails here instead of
+// being left in its current status
+export async function enqueueFileProcessing(file: File): Promise<void> {
+  const processor = findProcessor(file, parseMetadata(file));
+  if (!processor) {
+    await storage.updateFileStatus(file.id, FILE_STATUS.ERROR, `No processor is configured for ${file.fileType} files`);
+    return;
+  }
+  await jobQueue.enqueue(file.id, processor.queue);
+}
+
+// Whether a translated file's derivatives can still be viewed. Expired derivatives (a manifest or
+// object removed by APS) are regenerated: the file is queued again and false is returned.
+export async function verifyDerivatives(file: File): Promise<boolean> {
+  const metadata = parseMetadata(file);
+  if (metadata.viewerType !== 'aps' || !metadata.urn || !apsService.isConfigured()) return true;
+
+  const manifest = await apsService.getTranslationStatus(metadata.urn).catch((error) => {
+    if (error.response?.status === 404) return null;
+    throw error;
+  });
+  if (viewableStatus(manifest) === 'success') return true;
+
+  console.warn(`APS derivatives of ${file.originalName} have expired; translating the file again`);
+  await enqueueFileProcessing(file);
+  return false;
+}
+
+// What the enabled processors can do, for the client to adapt its UI
+export function getCapabilities(): Capabilities {
+  const processors = getProcessors().map(({ name, queue, viewer }) => ({ name, queue, viewer }));
+  const aps = apsService.isConfigured() && processors.some(processor => processor.viewer === 'aps');
+  return {
+    mode: aps ? 'cloud' : 'local-only',
+    aps,
+    processors,
+    viewers: Array.from(new Set(processors.map(processor => processor.viewer))),
+  };
+}
+
+export async function startFileProcessing(): Promise<void> {
+  registerBuiltinProcessors();
+
+  // One worker per queue used by an enabled processor
+  const queues = Array.from(new Set(getProcessors().map(processor => processor.queue)));
+  for (const queue of queues) {
+    jobQueue.register(queue, runProcessor, queueConcurrency(queue));
+  }
+  await jobQueue.start();
+}
@@ -0,0 +1,51 @@
+import type { File } from '@shared/schema';
+import type { ViewerType } from '@shared/capabilities';
+import type { JobContext } from './job-queue';
+
+export interface ProcessorContext extends JobContext {
+  // The file's stored metadata when the job started (upload sniffing results, earlier attempts)
+  metadata: Record<string, any>;
+  // Store intermediate metadata, such as progress or ids a retry can reuse
+  saveMetadata(metadata: Record<string, any>): Promise<void>;
+}
+
+export interface FileProcessor {
+  // Used in FILE_PROCESSORS and in logs
+  name: string;
+  // Job queue the processor runs on; processors sharing a queue share its concurrency limit
+  queue: string;
+  // Client viewer that displays the metadata this processor produces
+  viewer: ViewerType;
+  // Whether this processor handles the file
+  detect(file: File, metadata: Record<string, any>): boolean;
+  // Process the file and return its final metadata; the file is marked ready afterwards.
+  // Throw PermanentJobError for failures a retry would not fix.
+  process(file: File, context: ProcessorContext): Promise<Record<string, any>>;
+}
+
+const processors: FileProcessor[] = [];
+
+// FILE_PROCESSORS lists the enabled processors by name, in the order they are tried
+const configuredNames = process.env.FILE_PROCESSORS
+  ?.split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+
+// A processor registered later is tried before those registered earlier, so it can override them
+export function registerProcessor(processor: FileProcessor): void {
+  if (processors.some(existing => existing.name === processor.name)) {
+    throw new Error(`A file processor named '${processor.name}' is already registered`);
+  }
+  processors.unshift(processor);
+}
+
+export function getProcessors(): FileProcessor[] {
+  if (!configuredNames) return [...processors];
+  return configuredNames
+    .map(name => processors.find(processor => processor.name === name))
+    .filter((processor): processor is FileProcessor => !!processor);
+}
+
+export function findProcessor(file: File, metadata: Record<string, any>): FileProcessor | undefined {
+  return getProcessors().find(processor => processor.detect(file, metadata));
+}
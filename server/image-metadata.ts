@@ -0,0 +1,72 @@
+import fs from 'fs';
+import { imageSize } from 'image-size';
+import exifr from 'exifr';
+
+export interface ImageMetadata {
+  viewerType: 'image';
+  width: number | null;
+  height: number | null;
+  format: string | null;
+  orientation: number | null;
+  exif: Record<string, string | number> | null;
+}
+
+// EXIF/TIFF/GPS tags worth showing in the viewer; everything else is dropped to keep metadata small
+const EXIF_FIELDS = [
+  'Make',
+  'Model',
+  'LensModel',
+  'Software',
+  'DateTimeOriginal',
+  'ExposureTime',
+  'FNumber',
+  'ISO',
+  'FocalLength',
+  'Flash',
+  'ColorSpace',
+  'XResolution',
+  'YResolution',
+  'latitude',
+  'longitude',
+];
+
+function toSerializable(value: unknown): string | number | null {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return null;
+}
+
+async function readExif(data: Buffer): Promise<Record<string, string | number> | null> {
+  try {
+    const tags = await exifr.parse(data, { tiff: true, exif: true, gps: true });
+    if (!tags) return null;
+
+    const exif: Record<string, string | number> = {};
+    for (const field of EXIF_FIELDS) {
+      const value = toSerializable(tags[field]);
+      if (value !== null) exif[field] = value;
+    }
+    return Object.keys(exif).length > 0 ? exif : null;
+  } catch {
+    // Formats without EXIF support (GIF, BMP) or malformed segments just have no EXIF data
+    return null;
+  }
+}
+
+// Read true pixel dimensions and EXIF data for an uploaded image
+export async function extractImageMetadata(filePath: string): Promise<ImageMetadata> {
+  const data = await fs.promises.readFile(filePath);
+  const size = imageSize(data);
+  const orientation = size.orientation ?? null;
+  // EXIF orientations 5-8 are rotated a quarter turn, so the displayed image is transposed
+  const transposed = orientation !== null && orientation >= 5;
+
+  return {
+    viewerType: 'image',
+    width: (transposed ? size.height : size.width) ?? null,
+    height: (transposed ? size.width : size.height) ?? null,
+    format: size.type ?? null,
+    orientation,
+    exif: await readExif(data),
+  };
+}
@@ -0,0 +1,171 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FILE_STATUS, JOB_STATUS, type File, type Job } from '@shared/schema';
+import { MemStorage } from './storage';
+import { JobQueue, PermanentJobError, delay, type JobHandler } from './job-queue';
+
+// The queue polls every second, so conditions are waited for rather than checked right away
+async function waitFor<T>(read: () => Promise<T>, done: (value: T) => boolean, timeoutMs = 5000): Promise<T> {
+  const started = Date.now();
+  for (;;) {
+    const value = await read();
+    if (done(value)) return value;
+    if (Date.now() - started > timeoutMs) throw new Error(`Timed out waiting, last value: ${JSON.stringify(value)}`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+async function createFile(storage: MemStorage): Promise<File> {
+  return storage.createFile({
+    filename: 'blob',
+    originalName: 'plan.dwg',
+    mimeType: 'application/octet-stream',
+    size: 100,
+    filePath: 'uploads/blob',
+    fileType: 'autocad',
+  });
+}
+
+describe('JobQueue', () => {
+  const queues: JobQueue[] = [];
+
+  async function startQueue(storage: MemStorage, handler: JobHandler, concurrency = 1): Promise<JobQueue> {
+    const queue = new JobQueue(storage);
+    queue.register('local', handler, concurrency);
+    await queue.start();
+    queues.push(queue);
+    return queue;
+  }
+
+  afterEach(() => {
+    queues.splice(0).forEach(queue => queue.stop());
+  });
+
+  it('runs a queued job and leaves nothing active', async () => {
+    const storage = new MemStorage();
+    const file = await createFile(storage);
+    const seen: number[] = [];
+    const queue = await startQueue(storage, async (handled) => {
+      seen.push(handled.id);
+    });
+
+    await queue.enqueue(file.id, 'local');
+
+    await waitFor(() => storage.getActiveJobs(file.id), active => active.length === 0);
+    assert.deepEqual(seen, [file.id]);
+  });
+
+  it('retries failures with exponential backoff and fails the file after the last attempt', async () => {
+    const storage = new MemStorage();
+    const file = await createFile(storage);
+    const queue = await startQueue(storage, async () => {
+      throw new Error('APS is unavailable');
+    });
+
+    await queue.enqueue(file.id, 'local');
+
+    const backoffs: number[] = [];
+    for (let attempt = 1; attempt < 3; attempt++) {
+      const [job] = await waitFor(
+        () => storage.getActiveJobs(file.id),
+        ([job]) => job?.status === JOB_STATUS.QUEUED && job.attempts === attempt
+      );
+      backoffs.push(job.runAt.getTime() - job.updatedAt.getTime());
+      assert.equal(job.lastError, 'APS is unavailable');
+      assert.equal((await storage.getFile(file.id))?.status, FILE_STATUS.QUEUED);
+      // Make the retry due now instead of waiting out the backoff
+      await storage.updateJob(job.id, { runAt: new Date() });
+    }
+
+    // 5s after the first failure, doubling after each further one
+    assert.ok(backoffs[0] >= 4900 && backoffs[0] <= 5100, `first backoff was ${backoffs[0]}ms`);
+    assert.ok(backoffs[1] >= 9900 && backoffs[1] <= 10100, `second backoff was ${backoffs[1]}ms`);
+
+    const failed = await waitFor(() => storage.getFile(file.id), current => current?.status === FILE_STATUS.ERROR);
+    assert.equal(failed?.errorMessage, 'APS is unavailable');
+    assert.deepEqual(await storage.getActiveJobs(file.id), []);
+  });
+
+  it('does not retry a PermanentJobError', async () => {
+    const storage = new MemStorage();
+    const file = await createFile(storage);
+    let attempts = 0;
+    const queue = await startQueue(storage, async () => {
+      attempts++;
+      throw new PermanentJobError('Corrupt drawing');
+    });
+
+    await queue.enqueue(file.id, 'local');
+
+    const failed = await waitFor(() => storage.getFile(file.id), current => current?.status === FILE_STATUS.ERROR);
+    assert.equal(failed?.errorMessage, 'Corrupt drawing');
+    assert.equal(attempts, 1);
+    assert.deepEqual(await storage.getActiveJobs(file.id), []);
+  });
+
+  it('aborts a running job when its file is cancelled', async () => {
+    const storage = new MemStorage();
+    const file = await createFile(storage);
+    let started = false;
+    let aborted: unknown;
+    const queue = await startQueue(storage, async (_file, { signal }) => {
+      started = true;
+      try {
+        await delay(60000, signal);
+      } catch (error) {
+        aborted = error;
+        throw error;
+      }
+    });
+
+    const job = await queue.enqueue(file.id, 'local');
+    await waitFor(async () => started, value => value);
+
+    assert.equal(await queue.cancel(file.id), 1);
+    await waitFor(async () => aborted, value => value !== undefined);
+    assert.equal((aborted as Error).message, 'Processing cancelled');
+
+    // The cancellation is the outcome; the aborted handler does not turn it into a retry or a failure
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.deepEqual(await storage.getActiveJobs(file.id), []);
+    assert.notEqual((await storage.getFile(file.id))?.status, FILE_STATUS.ERROR);
+    assert.equal(await storage.claimNextJob('local', new Date()), undefined, `job ${job.id} was queued again`);
+  });
+
+  it('resumes jobs left running by a previous process', async () => {
+    const storage = new MemStorage();
+    const file = await createFile(storage);
+    await storage.createJob({ fileId: file.id, type: 'local', runAt: new Date() });
+    // Claimed by a process that then stopped
+    const interrupted = await storage.claimNextJob('local', new Date()) as Job;
+    assert.equal(interrupted.status, JOB_STATUS.RUNNING);
+
+    const handled: number[] = [];
+    await startQueue(storage, async () => {
+      handled.push(interrupted.id);
+    });
+
+    await waitFor(() => storage.getActiveJobs(file.id), active => active.length === 0);
+    assert.deepEqual(handled, [interrupted.id]);
+  });
+
+  it('runs no more jobs of a type at once than its concurrency', async () => {
+    const storage = new MemStorage();
+    let running = 0;
+    let peak = 0;
+    const queue = await startQueue(storage, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      running--;
+    }, 2);
+
+    const files = await Promise.all(Array.from({ length: 5 }, () => createFile(storage)));
+    for (const file of files) await queue.enqueue(file.id, 'local');
+
+    for (const file of files) {
+      await waitFor(() => storage.getActiveJobs(file.id), active => active.length === 0);
+    }
+    assert.equal(peak, 2);
+  });
+});
@@ -0,0 +1,172 @@
+import { FILE_STATUS, JOB_STATUS, type File, type Job } from '@shared/schema';
+import { storage, type IStorage } from './storage';
+
+export interface JobContext {
+  job: Job;
+  // Aborted when the job is cancelled; handlers check it between steps
+  signal: AbortSignal;
+}
+
+export type JobHandler = (file: File, context: JobContext) => Promise<void>;
+
+interface Worker {
+  handler: JobHandler;
+  concurrency: number;
+  running: Map<number, AbortController>;
+}
+
+// Thrown for failures that would fail again on retry, such as a corrupt drawing
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+const POLL_INTERVAL_MS = 1000;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+export const DEFAULT_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 3;
+
+// Wait between steps of a job, ending early if the job is cancelled
+export function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs file processing jobs stored in the storage layer, with a concurrency limit per job type
+export class JobQueue {
+  private storage: IStorage;
+  private workers: Map<string, Worker>;
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  private pendingTick = false;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+    this.workers = new Map();
+  }
+
+  register(type: string, handler: JobHandler, concurrency: number): void {
+    this.workers.set(type, { handler, concurrency: Math.max(1, concurrency), running: new Map() });
+  }
+
+  async start(): Promise<void> {
+    const requeued = await this.storage.requeueRunningJobs();
+    if (requeued > 0) {
+      console.log(`Resuming ${requeued} interrupted processing jobs`);
+    }
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.tick();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  async enqueue(fileId: number, type: string): Promise<Job> {
+    if (!this.workers.has(type)) {
+      throw new Error(`No worker registered for job type '${type}'`);
+    }
+
+    const job = await this.storage.createJob({
+      fileId,
+      type,
+      status: JOB_STATUS.QUEUED,
+      attempts: 0,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      runAt: new Date()
+    });
+    await this.storage.updateFileStatus(fileId, FILE_STATUS.QUEUED);
+    this.tick();
+    return job;
+  }
+
+  // Cancel queued and running jobs of a file; returns how many were active
+  async cancel(fileId: number): Promise<number> {
+    const active = await this.storage.getActiveJobs(fileId);
+    for (const job of active) {
+      await this.storage.updateJob(job.id, { status: JOB_STATUS.CANCELLED });
+      this.workers.get(job.type)?.running.get(job.id)?.abort(new Error('Processing cancelled'));
+    }
+    return active.length;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      this.pendingTick = true;
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      do {
+        this.pendingTick = false;
+        for (const [type, worker] of Array.from(this.workers.entries())) {
+          while (worker.running.size < worker.concurrency) {
+            const job = await this.storage.claimNextJob(type, new Date());
+            if (!job) break;
+            this.run(worker, job).catch((error) => console.error('Job queue error:', error));
+          }
+        }
+      } while (this.pendingTick);
+    } catch (error) {
+      console.error('Job queue error:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(worker: Worker, job: Job): Promise<void> {
+    const controller = new AbortController();
+    worker.running.set(job.id, controller);
+
+    try {
+      const file = await this.storage.getFile(job.fileId);
+      if (file) {
+        await this.storage.updateFileStatus(file.id, FILE_STATUS.PROCESSING);
+        await worker.handler(file, { job, signal: controller.signal });
+      }
+      if (!controller.signal.aborted) {
+        await this.storage.updateJob(job.id, { status: JOB_STATUS.COMPLETED, lastError: null });
+      }
+    } catch (error: any) {
+      // cancel() has already recorded the outcome
+      if (controller.signal.aborted) return;
+
+      const message = error.message || String(error);
+      const retry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+
+      if (retry) {
+        const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (job.attempts - 1), BACKOFF_MAX_MS);
+        console.warn(`Job ${job.id} (${job.type}) failed, retrying in ${backoff / 1000}s:`, message);
+        await this.storage.updateJob(job.id, {
+          status: JOB_STATUS.QUEUED,
+          lastError: message,
+          runAt: new Date(Date.now() + backoff)
+        });
+        await this.storage.updateFileStatus(job.fileId, FILE_STATUS.QUEUED, `Attempt ${job.attempts} failed, retrying: ${message}`);
+      } else {
+        console.error(`Job ${job.id} (${job.type}) failed:`, message);
+        await this.storage.updateJob(job.id, { status: JOB_STATUS.FAILED, lastError: message });
+        await this.storage.updateFileStatus(job.fileId, FILE_STATUS.ERROR, message);
+      }
+    } finally {
+      worker.running.delete(job.id);
+      this.tick();
+    }
+  }
+}
+
+export const jobQueue = new JobQueue(storage);
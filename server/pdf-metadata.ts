@@ -0,0 +1,57 @@
+import fs from 'fs';
+import { getDocument, PDFDateString } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+export interface PdfPageSize {
+  width: number; // points, after applying the page rotation
+  height: number;
+  rotation: number;
+}
+
+export interface PdfMetadata {
+  viewerType: 'pdf';
+  pageCount: number;
+  pages: PdfPageSize[];
+  info: Record<string, string>;
+}
+
+// Entries of the PDF info dictionary that are shown in the viewer
+const INFO_FIELDS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer', 'PDFFormatVersion'];
+const DATE_FIELDS = ['CreationDate', 'ModDate'];
+
+// Read page count, page sizes and the info dictionary of an uploaded PDF
+export async function extractPdfMetadata(filePath: string): Promise<PdfMetadata> {
+  const data = new Uint8Array(await fs.promises.readFile(filePath));
+  const pdf = await getDocument({ data, isEvalSupported: false, disableFontFace: true }).promise;
+
+  try {
+    const pages: PdfPageSize[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      pages.push({
+        width: Math.round(viewport.width * 100) / 100,
+        height: Math.round(viewport.height * 100) / 100,
+        rotation: page.rotate,
+      });
+      page.cleanup();
+    }
+
+    const { info: rawInfo } = await pdf.getMetadata();
+    const infoDictionary = (rawInfo || {}) as Record<string, unknown>;
+    const info: Record<string, string> = {};
+
+    for (const field of INFO_FIELDS) {
+      const value = infoDictionary[field];
+      if (typeof value === 'string' && value.trim()) info[field] = value.trim();
+    }
+    for (const field of DATE_FIELDS) {
+      const value = infoDictionary[field];
+      const date = typeof value === 'string' ? PDFDateString.toDateObject(value) : null;
+      if (date) info[field] = date.toISOString();
+    }
+
+    return { viewerType: 'pdf', pageCount: pdf.numPages, pages, info };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -1,130 +1,142 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import multer from "multer";
 import path from "path";
-import { insertFileSchema, FILE_TYPES, FILE_STATUS } from "@shared/schema";
+import fs from "fs";
+import { insertFileSchema, FILE_TYPES, FILE_EXTENSIONS, FILE_STATUS, type File } from "@shared/schema";
 import { z } from "zod";
+import { requestDerivativesSchema } from "@shared/derivatives";
 import { apsService } from "./aps-service";
-
-// Configure multer for file uploads
-const upload = multer({
-  dest: 'uploads/',
-  limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    // Allow all file types - we'll handle type detection in the route
-    cb(null, true);
-  }
-});
+import { findDerivativeResource, outputFormatsFor, parseManifest, withViewerFormat } from "./aps-derivatives";
+import { getDrawingPath } from "./drawing-cache";
+import { sniffCadFile } from "./cad-signature";
+import { collectOrphans, inspectUploads, reconcileUploads } from "./upload-manifest";
+import { jobQueue } from "./job-queue";
+import { enqueueFileProcessing, getCapabilities, startFileProcessing, verifyDerivatives } from "./file-processing";
+import { attachFileEvents } from "./file-events";
+import { TRASH_RETENTION_DAYS, deleteFileEverywhere, moveToTrash, startTrashPurge } from "./file-deletion";
+import {
+  MAX_UPLOAD_SIZE,
+  UPLOAD_CHUNK_SIZE,
+  UploadError,
+  abortUpload,
+  blobPath,
+  completeUpload,
+  createUploadSession,
+  getUploadSession,
+  startUploadExpiry,
+  writeUploadChunk
+} from "./chunked-uploads";
 
 // File type detection based on extension and MIME type
 function detectFileType(filename: string, mimeType: string): string {
   const ext = path.extname(filename).toLowerCase();
   
   // AutoCAD files
-  if (['.dwg', '.dxf', '.dwt'].includes(ext)) {
+  if (FILE_EXTENSIONS[FILE_TYPES.AUTOCAD].includes(ext)) {
     return FILE_TYPES.AUTOCAD;
   }
   
   // PDF files
-  if (ext === '.pdf' || mimeType === 'application/pdf') {
+  if (FILE_EXTENSIONS[FILE_TYPES.PDF].includes(ext) || mimeType === 'application/pdf') {
     return FILE_TYPES.PDF;
   }
   
   // Image files
-  if (ext.match(/\.(jpg|jpeg|png|gif|bmp|webp)$/) || mimeType.startsWith('image/')) {
+  if (FILE_EXTENSIONS[FILE_TYPES.IMAGE].includes(ext) || mimeType.startsWith('image/')) {
     return FILE_TYPES.IMAGE;
   }
   
   // Document files
-  if (ext.match(/\.(doc|docx|txt|rtf)$/) || mimeType.includes('document') || mimeType.includes('text')) {
+  if (FILE_EXTENSIONS[FILE_TYPES.DOCUMENT].includes(ext) || mimeType.includes('document') || mimeType.includes('text')) {
     return FILE_TYPES.DOCUMENT;
   }
   
   return FILE_TYPES.OTHER;
 }
 
-// Process files with real APS integration for AutoCAD files
-async function processFile(fileId: number, fileType: string, filePath: string, originalName: string): Promise<void> {
-  try {
-    if (fileType === FILE_TYPES.AUTOCAD) {
-      await storage.updateFileStatus(fileId, FILE_STATUS.PROCESSING);
-      
-      // Process with APS
-      const bucketKey = `autocad-viewer-${Date.now()}`;
-      const objectKey = `${fileId}-${originalName}`;
-      
-      try {
-        // Create bucket
-        await apsService.createBucket(bucketKey);
-        
-        // Upload file to APS
-        const uploadResult = await apsService.uploadFile(bucketKey, objectKey, filePath);
-        const urn = apsService.encodeBase64Url(uploadResult.objectId);
-        
-        // Start translation
-        await apsService.translateFile(urn);
-        
-        // Poll for translation status
-        let attempts = 0;
-        const maxAttempts = 30; // 5 minutes max
-        
-        const checkStatus = async (): Promise<void> => {
-          attempts++;
-          const status = await apsService.getTranslationStatus(urn);
-          
-          if (status.status === 'success') {
-            await storage.updateFileStatus(fileId, FILE_STATUS.READY);
-            await storage.updateFileMetadata(fileId, JSON.stringify({
-              viewerType: 'aps',
-              urn: urn,
-              bucketKey: bucketKey,
-              objectKey: objectKey,
-              status: 'translated',
-              derivatives: status
-            }));
-          } else if (status.status === 'failed') {
-            await storage.updateFileStatus(fileId, FILE_STATUS.ERROR, 'APS translation failed');
-          } else if (attempts < maxAttempts) {
-            // Still processing, check again in 10 seconds
-            setTimeout(checkStatus, 10000);
-          } else {
-            await storage.updateFileStatus(fileId, FILE_STATUS.ERROR, 'Translation timeout');
-          }
-        };
-        
-        // Start checking status after 10 seconds
-        setTimeout(checkStatus, 10000);
-        
-      } catch (apsError: any) {
-        console.error('APS processing error:', apsError);
-        await storage.updateFileStatus(fileId, FILE_STATUS.ERROR, `APS error: ${apsError.message}`);
-      }
-    } else {
-      // Other file types use standard processing
-      setTimeout(async () => {
-        await storage.updateFileStatus(fileId, FILE_STATUS.READY);
-        await storage.updateFileMetadata(fileId, JSON.stringify({
-          viewerType: 'standard',
-          processed: true
-        }));
-      }, 1000);
+// Types the built-in viewers display straight from /content. Anything else could carry script
+// (HTML, SVG) and is only ever served as a download.
+const INLINE_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/bmp', 'image/webp'];
+
+// Content-Disposition with an ASCII fallback and the real name in RFC 5987 form, so any file name is a valid header
+function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+interface UploadedBlob {
+  filename: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  filePath: string;
+}
+
+// Create the record for an upload; it shows in the queue while the content is still arriving
+async function createUploadRecord(blob: UploadedBlob): Promise<File> {
+  const validatedData = insertFileSchema.parse({
+    ...blob,
+    fileType: detectFileType(blob.originalName, blob.mimeType),
+    status: FILE_STATUS.UPLOADING
+  });
+  return storage.createFile(validatedData);
+}
+
+// Once the content is stored, check it and queue the file for processing
+async function finishUpload(file: File): Promise<File> {
+  // Reject CAD files whose header does not match their extension before any processing
+  if (file.fileType === FILE_TYPES.AUTOCAD) {
+    const signature = await sniffCadFile(file.filePath, file.originalName);
+    if (!signature.valid) {
+      return (await storage.updateFileStatus(file.id, FILE_STATUS.ERROR, signature.reason))!;
     }
-  } catch (error: any) {
-    console.error('File processing error:', error);
-    await storage.updateFileStatus(fileId, FILE_STATUS.ERROR, `Processing failed: ${error.message}`);
+    file = (await storage.updateFileMetadata(file.id, JSON.stringify({
+      format: signature.format,
+      acadVersion: signature.acadVersion,
+      version: signature.version
+    })))!;
   }
+
+  // Queue the file for background processing
+  await enqueueFileProcessing(file);
+  return (await storage.getFile(file.id))!;
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
+// The record of a resumable upload is found by its blob, since ids change when records are restored
+async function findUploadRecord(uploadId: string): Promise<File | undefined> {
+  const filePath = path.resolve(blobPath(uploadId));
+  return (await storage.getAllFiles()).find(file => path.resolve(file.filePath) === filePath);
+}
+
+export interface RouteOptions {
+  // Expire abandoned uploads and purge the trash on a timer; off in tests
+  maintenance?: boolean;
+}
+
+export async function registerRoutes(app: Express, { maintenance = true }: RouteOptions = {}): Promise<Server> {
+  // Bring the file index back in line with the uploads directory before serving requests
+  try {
+    await reconcileUploads(storage);
+  } catch (error) {
+    console.error('Uploads reconciliation error:', error);
+  }
+
+  if (maintenance) {
+    // Drop resumable uploads that were abandoned more than a day ago, now and every hour
+    startUploadExpiry(storage);
+    // Delete files that have been in the trash longer than the retention period
+    startTrashPurge();
+  }
+
+  // Start the processing workers, resuming jobs interrupted by a restart
+  await startFileProcessing();
   
-  // Get all files
+  // Get all files that are not in the trash
   app.get("/api/files", async (req, res) => {
     try {
       const files = await storage.getAllFiles();
-      res.json(files);
+      res.json(files.filter(file => !file.deletedAt));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch files" });
     }
@@ -136,7 +148,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = parseInt(req.params.id);
       const file = await storage.getFile(id);
       
-      if (!file) {
+      if (!file || file.deletedAt) {
         return res.status(404).json({ message: "File not found" });
       }
       
@@ -146,54 +158,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Upload files
-  app.post("/api/files/upload", upload.array('files'), async (req, res) => {
+  // Which processors and viewers this server offers, e.g. no APS viewer in local-only mode
+  app.get("/api/capabilities", (req, res) => {
+    res.json(getCapabilities());
+  });
+
+  // Limits the client needs before starting a resumable upload
+  app.get("/api/uploads/limits", (req, res) => {
+    res.json({ maxFileSize: MAX_UPLOAD_SIZE, chunkSize: UPLOAD_CHUNK_SIZE });
+  });
+
+  // Start a resumable upload
+  app.post("/api/uploads", async (req, res) => {
     try {
-      if (!req.files || !Array.isArray(req.files)) {
-        return res.status(400).json({ message: "No files uploaded" });
-      }
-
-      const uploadedFiles = [];
-
-      for (const file of req.files) {
-        const fileType = detectFileType(file.originalname, file.mimetype);
-        
-        const fileData = {
-          filename: file.filename,
-          originalName: file.originalname,
-          mimeType: file.mimetype,
-          size: file.size,
-          filePath: file.path,
-          fileType,
-          status: FILE_STATUS.UPLOADING,
-          errorMessage: null,
-          metadata: null
-        };
-
-        // Validate the file data
-        const validatedData = insertFileSchema.parse(fileData);
-        
-        // Create file record
-        const savedFile = await storage.createFile(validatedData);
-        uploadedFiles.push(savedFile);
-
-        // Start processing the file asynchronously
-        processFile(savedFile.id, fileType, file.path, file.originalname);
-      }
-
-      res.json({ 
-        message: "Files uploaded successfully", 
-        files: uploadedFiles 
+      const { name, size, mimeType } = req.body;
+      const session = await createUploadSession(name, mimeType, size);
+      const file = await createUploadRecord({
+        filename: session.uploadId,
+        originalName: session.originalName,
+        mimeType: session.mimeType,
+        size: session.size,
+        filePath: blobPath(session.uploadId)
       });
-    } catch (error) {
+      res.status(201).json({ ...session, file });
+    } catch (error: any) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid file data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to upload files" });
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  // Get the chunks received so far, so an interrupted upload can resume
+  app.get("/api/uploads/:uploadId", async (req, res) => {
+    try {
+      const session = await getUploadSession(req.params.uploadId);
+      res.json({ ...session, file: await findUploadRecord(session.uploadId) });
+    } catch (error: any) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to load upload" });
     }
   });
 
-  // Update file status (for manual retry)
+  // Upload one chunk; the X-Chunk-Checksum header carries its SHA-256 hex digest
+  app.put(
+    "/api/uploads/:uploadId/parts/:index",
+    express.raw({ type: () => true, limit: UPLOAD_CHUNK_SIZE }),
+    async (req, res) => {
+      try {
+        const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const session = await writeUploadChunk(
+          req.params.uploadId,
+          parseInt(req.params.index),
+          data,
+          req.get('X-Chunk-Checksum')
+        );
+        res.json({ received: session.received.length, totalChunks: session.totalChunks });
+      } catch (error: any) {
+        if (error instanceof UploadError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        res.status(500).json({ message: "Failed to store chunk" });
+      }
+    }
+  );
+
+  // Finish a resumable upload and create the file record
+  app.post("/api/uploads/:uploadId/complete", async (req, res) => {
+    try {
+      const session = await completeUpload(req.params.uploadId);
+      const record = await findUploadRecord(session.uploadId) ?? await createUploadRecord({
+        filename: session.uploadId,
+        originalName: session.originalName,
+        mimeType: session.mimeType,
+        size: session.size,
+        filePath: blobPath(session.uploadId)
+      });
+      const file = await finishUpload(record);
+      res.json({ message: "File uploaded successfully", file });
+    } catch (error: any) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid file data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  // Abandon a resumable upload and discard its chunks
+  app.delete("/api/uploads/:uploadId", async (req, res) => {
+    try {
+      await abortUpload(req.params.uploadId);
+
+      const record = await findUploadRecord(req.params.uploadId);
+      if (record) await storage.deleteFile(record.id);
+
+      res.json({ message: "Upload cancelled" });
+    } catch (error: any) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  // Update file status
   app.patch("/api/files/:id/status", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -211,15 +287,254 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete file
+  // Check that a translated drawing can still be opened, translating it again when its derivatives expired
+  app.post("/api/files/:id/derivatives/verify", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file || file.deletedAt) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      if (file.status !== FILE_STATUS.READY) {
+        return res.status(409).json({ message: "File is not ready" });
+      }
+
+      const available = await verifyDerivatives(file);
+      res.json({ available, file: await storage.getFile(id) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check the translated drawing" });
+    }
+  });
+
+  // Requested outputs of a translated drawing and the current state of its APS manifest
+  app.get("/api/files/:id/derivatives", async (req, res) => {
+    if (!apsService.isConfigured()) {
+      return res.status(503).json({ message: "APS is not configured on this server" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      const metadata = file?.metadata ? JSON.parse(file.metadata) : {};
+      
+      if (!file || !metadata.urn) {
+        return res.status(404).json({ message: "File has no APS translation" });
+      }
+
+      const manifest = await apsService.getTranslationStatus(metadata.urn);
+      res.json({ formats: outputFormatsFor(metadata), translation: parseManifest(manifest) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch derivatives" });
+    }
+  });
+
+  // Translate a drawing to additional formats; existing outputs are kept
+  app.post("/api/files/:id/derivatives", async (req, res) => {
+    if (!apsService.isConfigured()) {
+      return res.status(503).json({ message: "APS is not configured on this server" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const { formats: requested } = requestDerivativesSchema.parse(req.body);
+      const file = await storage.getFile(id);
+      const metadata = file?.metadata ? JSON.parse(file.metadata) : {};
+      
+      if (!file || file.deletedAt || !metadata.urn) {
+        return res.status(404).json({ message: "File has no APS translation" });
+      }
+
+      if (file.status !== FILE_STATUS.READY) {
+        return res.status(409).json({ message: "File is not ready" });
+      }
+
+      const formats = withViewerFormat([...outputFormatsFor(metadata), ...requested]);
+      await apsService.translateFile(metadata.urn, false, formats);
+      await storage.updateFileMetadata(id, JSON.stringify({ ...metadata, outputFormats: formats }));
+      
+      res.status(202).json({ formats });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid output formats", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to request derivatives" });
+    }
+  });
+
+  // Download a finished derivative file through the server, which holds the APS credentials
+  app.get("/api/files/:id/derivatives/:guid", async (req, res) => {
+    if (!apsService.isConfigured()) {
+      return res.status(503).json({ message: "APS is not configured on this server" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      const metadata = file?.metadata ? JSON.parse(file.metadata) : {};
+      
+      if (!file || !metadata.urn) {
+        return res.status(404).json({ message: "File has no APS translation" });
+      }
+
+      const manifest = await apsService.getTranslationStatus(metadata.urn);
+      const resource = findDerivativeResource(manifest, req.params.guid);
+      if (!resource) {
+        return res.status(404).json({ message: "Derivative not found" });
+      }
+
+      const download = await apsService.downloadDerivative(metadata.urn, resource.urn);
+      res.attachment(resource.name);
+      res.setHeader('Content-Type', download.contentType || resource.mime || 'application/octet-stream');
+      if (download.size) {
+        res.setHeader('Content-Length', download.size);
+      }
+      download.stream.on('error', () => res.destroy());
+      download.stream.pipe(res);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download derivative" });
+    }
+  });
+
+  // Run a file through the processing pipeline again
+  app.post("/api/files/:id/reprocess", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      if (file.deletedAt) {
+        return res.status(409).json({ message: "Restore the file from the trash first" });
+      }
+
+      if (file.status === FILE_STATUS.UPLOADING || file.status === FILE_STATUS.QUEUED ||
+          file.status === FILE_STATUS.PROCESSING) {
+        return res.status(409).json({ message: "File is already being processed" });
+      }
+
+      if (!fs.existsSync(file.filePath)) {
+        return res.status(410).json({ message: "The uploaded file is no longer available" });
+      }
+
+      // CAD files rejected at upload never got a format; check them again rather than sending them to APS
+      const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+      if (file.fileType === FILE_TYPES.AUTOCAD && !metadata.format) {
+        const signature = await sniffCadFile(file.filePath, file.originalName);
+        if (!signature.valid) {
+          return res.status(422).json({ message: signature.reason });
+        }
+        await storage.updateFileMetadata(id, JSON.stringify({
+          ...metadata,
+          format: signature.format,
+          acadVersion: signature.acadVersion,
+          version: signature.version
+        }));
+      }
+
+      const currentFile = await storage.getFile(id);
+      await enqueueFileProcessing(currentFile!);
+      
+      res.json(await storage.getFile(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reprocess file" });
+    }
+  });
+
+  // Stop queued or running processing of a file
+  app.post("/api/files/:id/cancel", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const cancelled = await jobQueue.cancel(id);
+      
+      if (cancelled === 0) {
+        return res.status(409).json({ message: "File is not being processed" });
+      }
+      
+      const updatedFile = await storage.updateFileStatus(id, FILE_STATUS.ERROR, 'Processing cancelled');
+      res.json(updatedFile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel processing" });
+    }
+  });
+
+  // Move file to the trash; an unfinished upload has nothing worth keeping and is deleted outright
   app.delete("/api/files/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteFile(id);
+      const file = await storage.getFile(id);
       
-      if (!deleted) {
+      if (!file || file.deletedAt) {
         return res.status(404).json({ message: "File not found" });
       }
+
+      if (file.status !== FILE_STATUS.UPLOADING) {
+        const trashed = await moveToTrash(file);
+        return res.json({ message: "File moved to trash", file: trashed });
+      }
+
+      const report = await deleteFileEverywhere(file);
+      if (!report.deleted) {
+        return res.status(502).json({ message: "File was only partly deleted", failures: report.failures });
+      }
+      
+      res.json({ message: "File deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete file" });
+    }
+  });
+
+  // List the trash, most recently deleted first
+  app.get("/api/trash", async (req, res) => {
+    try {
+      const trashed = (await storage.getAllFiles())
+        .filter(file => file.deletedAt)
+        .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+      res.json({ retentionDays: TRASH_RETENTION_DAYS, files: trashed });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:id/restore", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file?.deletedAt) {
+        return res.status(404).json({ message: "File not found in trash" });
+      }
+
+      // Failures of an earlier attempt to delete it for good no longer apply
+      const { deleteFailures, ...metadata } = file.metadata ? JSON.parse(file.metadata) : {};
+      if (deleteFailures) {
+        await storage.updateFileMetadata(id, JSON.stringify(metadata));
+      }
+
+      const restored = await storage.setFileDeletedAt(id, null);
+      res.json(restored);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore file" });
+    }
+  });
+
+  // Delete a trashed file for good
+  app.delete("/api/trash/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file?.deletedAt) {
+        return res.status(404).json({ message: "File not found in trash" });
+      }
+
+      await jobQueue.cancel(id);
+      const report = await deleteFileEverywhere(file);
+
+      // Report what is left behind so the user can retry instead of assuming it is gone
+      if (!report.deleted) {
+        return res.status(502).json({ message: "File was only partly deleted", failures: report.failures });
+      }
       
       res.json({ message: "File deleted successfully" });
     } catch (error) {
@@ -233,23 +548,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = parseInt(req.params.id);
       const file = await storage.getFile(id);
       
-      if (!file) {
+      if (!file || file.deletedAt) {
         return res.status(404).json({ message: "File not found" });
       }
       
-      res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
+      res.setHeader('Content-Disposition', contentDisposition('attachment', file.originalName));
       res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
       res.sendFile(path.resolve(file.filePath));
     } catch (error) {
       res.status(500).json({ message: "Failed to download file" });
     }
   });
 
-  // Get APS viewer token
+  // Serve file content inline for the built-in viewers
+  app.get("/api/files/:id/content", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file || file.deletedAt) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      // The stored MIME type comes from the client, so only known-safe types are shown inline
+      const inline = INLINE_CONTENT_TYPES.includes(file.mimeType);
+      res.setHeader('Content-Disposition', contentDisposition(inline ? 'inline' : 'attachment', file.originalName));
+      res.setHeader('Content-Type', inline ? file.mimeType : 'application/octet-stream');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      // Opened directly, the content must not run anything in the app's origin. Chrome refuses to show
+      // PDFs in a sandboxed document, and its PDF viewer runs no script in the page anyway.
+      if (file.mimeType !== 'application/pdf') {
+        res.setHeader('Content-Security-Policy', 'sandbox');
+      }
+      res.sendFile(path.resolve(file.filePath));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load file content" });
+    }
+  });
+
+  // Serve the embedded drawing preview
+  app.get("/api/files/:id/thumbnail", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file || file.deletedAt) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+      if (!metadata.thumbnail) {
+        return res.status(404).json({ message: "No preview available" });
+      }
+      
+      res.setHeader('Content-Type', metadata.thumbnail.mimeType);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.sendFile(path.resolve(metadata.thumbnail.path));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load thumbnail" });
+    }
+  });
+
+  // Serve the sanitized HTML or plain text preview of a document
+  app.get("/api/files/:id/preview", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file || file.deletedAt) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+      if (metadata.viewerType !== 'document' || !metadata.preview) {
+        return res.status(404).json({ message: "No preview available" });
+      }
+      
+      res.setHeader('Content-Type', `${metadata.preview.mimeType}; charset=utf-8`);
+      // The preview is embedded by the viewer; opened directly it must not run anything
+      res.setHeader('Content-Security-Policy', "sandbox; default-src 'none'; img-src data:; style-src 'unsafe-inline'");
+      res.sendFile(path.resolve(metadata.preview.path));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load preview" });
+    }
+  });
+
+  // Serve tessellated DXF geometry for the built-in drawing viewer
+  app.get("/api/files/:id/drawing", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getFile(id);
+      
+      if (!file || file.deletedAt) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const metadata = file.metadata ? JSON.parse(file.metadata) : {};
+      if (metadata.viewerType !== 'dxf') {
+        return res.status(400).json({ message: "Drawing geometry is only available for ASCII DXF files" });
+      }
+      
+      // Tessellating is slow for large drawings, so the result is kept next to the upload
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.sendFile(path.resolve(await getDrawingPath(file.filePath)));
+    } catch (error: any) {
+      console.error('DXF drawing error:', error);
+      res.status(500).json({ message: "Failed to read drawing", error: error.message });
+    }
+  });
+
+  // Report orphaned blobs and records whose blob is missing
+  app.get("/api/admin/uploads", async (req, res) => {
+    try {
+      res.json(await inspectUploads(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to inspect uploads" });
+    }
+  });
+
+  // Delete orphaned blobs and their sidecar files
+  app.delete("/api/admin/uploads/orphans", async (req, res) => {
+    try {
+      const deleted = await collectOrphans(storage);
+      res.json({ message: `Deleted ${deleted.length} orphaned files`, deleted });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete orphaned uploads" });
+    }
+  });
+
+  // Get a read-only APS token for the browser viewer
   app.get("/api/aps/token", async (req, res) => {
+    if (!apsService.isConfigured()) {
+      return res.status(503).json({ message: "APS is not configured on this server" });
+    }
     try {
-      const token = await apsService.getViewerToken();
-      res.json({ access_token: token, expires_in: 3600 });
+      const { access_token, expires_in } = await apsService.getViewerToken();
+      res.set('Cache-Control', 'no-store');
+      res.json({ access_token, expires_in });
     } catch (error: any) {
       console.error('APS token error:', error);
       res.status(500).json({ message: "Failed to get APS token", error: error.message });
@@ -257,5 +693,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+
+  // Push file changes to the browser instead of having it poll /api/files
+  attachFileEvents(httpServer);
+
   return httpServer;
 }
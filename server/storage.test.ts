@@ -0,0 +1,145 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import pg from 'pg';
+import { sql } from 'drizzle-orm';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { FILE_STATUS, JOB_STATUS, type InsertFile } from '@shared/schema';
+import { createDb, type Database } from './db';
+import { DbStorage } from './storage';
+
+// Runs against the PostgreSQL server in DATABASE_URL, in a database of its own that is dropped afterwards,
+// so the data already on that server is never touched
+const serverUrl = process.env.DATABASE_URL;
+
+async function onServer(statement: string): Promise<void> {
+  const client = new pg.Client({ connectionString: serverUrl });
+  await client.connect();
+  try {
+    await client.query(statement);
+  } finally {
+    await client.end();
+  }
+}
+
+function sampleFile(name: string): InsertFile {
+  return {
+    filename: `blob-${name}`,
+    originalName: name,
+    mimeType: 'application/octet-stream',
+    size: 100,
+    filePath: `uploads/blob-${name}`,
+    fileType: 'autocad',
+  };
+}
+
+describe('DbStorage', { skip: !serverUrl && 'DATABASE_URL is not set' }, () => {
+  const databaseName = `autocad_viewer_test_${process.pid}`;
+  let db: Database;
+  let storage: DbStorage;
+
+  before(async () => {
+    await onServer(`CREATE DATABASE ${databaseName}`);
+    const url = new URL(serverUrl!);
+    url.pathname = `/${databaseName}`;
+    db = createDb(url.toString());
+    await migrate(db, { migrationsFolder: 'migrations' });
+    storage = new DbStorage(db);
+  });
+
+  after(async () => {
+    await db?.$client.end();
+    await onServer(`DROP DATABASE IF EXISTS ${databaseName}`);
+  });
+
+  beforeEach(async () => {
+    await db.execute(sql`TRUNCATE files RESTART IDENTITY CASCADE`);
+  });
+
+  it('creates files with the schema defaults', async () => {
+    const file = await storage.createFile(sampleFile('plan.dwg'));
+
+    assert.equal(file.id, 1);
+    assert.equal(file.status, FILE_STATUS.UPLOADING);
+    assert.equal(file.processedAt, null);
+    assert.ok(file.uploadedAt instanceof Date);
+    assert.deepEqual(await storage.getFile(file.id), file);
+  });
+
+  it('lists files newest first like MemStorage', async () => {
+    const first = await storage.createFile(sampleFile('first.dwg'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const second = await storage.createFile(sampleFile('second.dwg'));
+
+    const listed = await storage.getAllFiles();
+    assert.deepEqual(listed.map(file => file.id), [second.id, first.id]);
+  });
+
+  it('updates status, error message and metadata', async () => {
+    const file = await storage.createFile(sampleFile('plan.dwg'));
+
+    const failed = await storage.updateFileStatus(file.id, FILE_STATUS.ERROR, 'Corrupt drawing');
+    assert.equal(failed?.status, FILE_STATUS.ERROR);
+    assert.equal(failed?.errorMessage, 'Corrupt drawing');
+    assert.ok(failed?.processedAt instanceof Date);
+
+    const queued = await storage.updateFileStatus(file.id, FILE_STATUS.QUEUED);
+    assert.equal(queued?.errorMessage, null);
+
+    const described = await storage.updateFileMetadata(file.id, JSON.stringify({ entities: 3 }));
+    assert.equal(described?.metadata, '{"entities":3}');
+
+    assert.equal(await storage.updateFileStatus(999, FILE_STATUS.READY), undefined);
+  });
+
+  it('deletes files', async () => {
+    const file = await storage.createFile(sampleFile('plan.dwg'));
+
+    assert.equal(await storage.deleteFile(file.id), true);
+    assert.equal(await storage.getFile(file.id), undefined);
+    assert.equal(await storage.deleteFile(file.id), false);
+  });
+
+  it('deletes the jobs of a deleted file', async () => {
+    const file = await storage.createFile(sampleFile('plan.dwg'));
+    const other = await storage.createFile(sampleFile('other.dwg'));
+    await storage.createJob({ fileId: file.id, type: 'aps' });
+    await storage.createJob({ fileId: other.id, type: 'aps' });
+
+    await storage.deleteFile(file.id);
+
+    const { rows } = await db.execute(sql`SELECT file_id FROM jobs`);
+    assert.deepEqual(rows, [{ file_id: other.id }]);
+  });
+
+  it('hands each due job to exactly one of several concurrent claims', async () => {
+    const file = await storage.createFile(sampleFile('plan.dwg'));
+    const now = new Date();
+    for (let i = 0; i < 5; i++) {
+      await storage.createJob({ fileId: file.id, type: 'aps', runAt: new Date(now.getTime() - 1000) });
+    }
+    // Not due yet, and of another type
+    await storage.createJob({ fileId: file.id, type: 'aps', runAt: new Date(now.getTime() + 60000) });
+    await storage.createJob({ fileId: file.id, type: 'local', runAt: new Date(now.getTime() - 1000) });
+
+    const claims = await Promise.all(Array.from({ length: 8 }, () => storage.claimNextJob('aps', now)));
+    const claimed = claims.filter(job => job !== undefined);
+
+    assert.equal(claimed.length, 5);
+    assert.equal(new Set(claimed.map(job => job!.id)).size, 5);
+    for (const job of claimed) {
+      assert.equal(job!.status, JOB_STATUS.RUNNING);
+      assert.equal(job!.attempts, 1);
+    }
+  });
+
+  it('puts running jobs back in the queue', async () => {
+    const file = await storage.createFile(sampleFile('plan.dwg'));
+    await storage.createJob({ fileId: file.id, type: 'aps', runAt: new Date(Date.now() - 1000) });
+    const running = await storage.claimNextJob('aps', new Date());
+
+    assert.equal(await storage.requeueRunningJobs(), 1);
+    const [job] = await storage.getActiveJobs(file.id);
+    assert.equal(job.id, running!.id);
+    assert.equal(job.status, JOB_STATUS.QUEUED);
+  });
+});
@@ -1,21 +1,42 @@
-import { files, type File, type InsertFile } from "@shared/schema";
+import { and, asc, desc, eq, inArray, lte } from "drizzle-orm";
+import { files, jobs, JOB_STATUS, type File, type InsertFile, type InsertJob, type Job } from "@shared/schema";
+import { createDb, type Database } from "./db";
+import { ManifestStorage } from "./upload-manifest";
+import { EventStorage } from "./file-events";
 
 export interface IStorage {
   getFile(id: number): Promise<File | undefined>;
   getAllFiles(): Promise<File[]>;
   createFile(file: InsertFile): Promise<File>;
+  restoreFile(file: Omit<File, 'id'>): Promise<File>;
   updateFileStatus(id: number, status: string, errorMessage?: string): Promise<File | undefined>;
   updateFileMetadata(id: number, metadata: string): Promise<File | undefined>;
+  // Move a file to the trash with the time it was deleted, or restore it with null
+  setFileDeletedAt(id: number, deletedAt: Date | null): Promise<File | undefined>;
   deleteFile(id: number): Promise<boolean>;
+
+  createJob(job: InsertJob): Promise<Job>;
+  // Atomically mark the next due job of a type as running and count the attempt
+  claimNextJob(type: string, now: Date): Promise<Job | undefined>;
+  updateJob(id: number, changes: Partial<InsertJob>): Promise<Job | undefined>;
+  getActiveJobs(fileId: number): Promise<Job[]>;
+  // Put jobs left running by a previous process back in the queue
+  requeueRunningJobs(): Promise<number>;
 }
 
+const ACTIVE_JOB_STATUSES: string[] = [JOB_STATUS.QUEUED, JOB_STATUS.RUNNING];
+
 export class MemStorage implements IStorage {
   private files: Map<number, File>;
+  private jobs: Map<number, Job>;
   private currentId: number;
+  private currentJobId: number;
 
   constructor() {
     this.files = new Map();
+    this.jobs = new Map();
     this.currentId = 1;
+    this.currentJobId = 1;
   }
 
   async getFile(id: number): Promise<File | undefined> {
@@ -34,12 +55,20 @@ export class MemStorage implements IStorage {
       ...insertFile, 
       id,
       uploadedAt: new Date(),
-      processedAt: null
+      processedAt: null,
+      deletedAt: null
     };
     this.files.set(id, file);
     return file;
   }
 
+  async restoreFile(record: Omit<File, 'id'>): Promise<File> {
+    const id = this.currentId++;
+    const file: File = { ...record, id };
+    this.files.set(id, file);
+    return file;
+  }
+
   async updateFileStatus(id: number, status: string, errorMessage?: string): Promise<File | undefined> {
     const file = this.files.get(id);
     if (!file) return undefined;
@@ -64,9 +93,189 @@ export class MemStorage implements IStorage {
     return updatedFile;
   }
 
+  async setFileDeletedAt(id: number, deletedAt: Date | null): Promise<File | undefined> {
+    const file = this.files.get(id);
+    if (!file) return undefined;
+
+    const updatedFile: File = { ...file, deletedAt };
+    this.files.set(id, updatedFile);
+    return updatedFile;
+  }
+
   async deleteFile(id: number): Promise<boolean> {
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.fileId === id) this.jobs.delete(job.id);
+    }
     return this.files.delete(id);
   }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.currentJobId++;
+    const now = new Date();
+    const job: Job = {
+      status: JOB_STATUS.QUEUED,
+      attempts: 0,
+      maxAttempts: 3,
+      runAt: now,
+      lastError: null,
+      ...insertJob,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async claimNextJob(type: string, now: Date): Promise<Job | undefined> {
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.type === type && job.status === JOB_STATUS.QUEUED && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const claimed: Job = { ...next, status: JOB_STATUS.RUNNING, attempts: next.attempts + 1, updatedAt: now };
+    this.jobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async updateJob(id: number, changes: Partial<InsertJob>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob: Job = { ...job, ...changes, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async getActiveJobs(fileId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.fileId === fileId && ACTIVE_JOB_STATUSES.includes(job.status));
+  }
+
+  async requeueRunningJobs(): Promise<number> {
+    let requeued = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status === JOB_STATUS.RUNNING) {
+        this.jobs.set(job.id, { ...job, status: JOB_STATUS.QUEUED, updatedAt: new Date() });
+        requeued++;
+      }
+    }
+    return requeued;
+  }
+}
+
+export class DbStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getFile(id: number): Promise<File | undefined> {
+    const [file] = await this.db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  async getAllFiles(): Promise<File[]> {
+    // Newest first; uploads sharing a timestamp keep their insertion order like MemStorage's stable sort
+    return this.db.select().from(files).orderBy(desc(files.uploadedAt), asc(files.id));
+  }
+
+  async createFile(insertFile: InsertFile): Promise<File> {
+    const [file] = await this.db.insert(files).values(insertFile).returning();
+    return file;
+  }
+
+  async restoreFile(record: Omit<File, 'id'>): Promise<File> {
+    const [file] = await this.db.insert(files).values(record).returning();
+    return file;
+  }
+
+  async updateFileStatus(id: number, status: string, errorMessage?: string): Promise<File | undefined> {
+    const [file] = await this.db.update(files)
+      .set({
+        status,
+        errorMessage: errorMessage || null,
+        ...(status === 'ready' || status === 'error' ? { processedAt: new Date() } : {})
+      })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async updateFileMetadata(id: number, metadata: string): Promise<File | undefined> {
+    const [file] = await this.db.update(files)
+      .set({ metadata })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async setFileDeletedAt(id: number, deletedAt: Date | null): Promise<File | undefined> {
+    const [file] = await this.db.update(files)
+      .set({ deletedAt })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async deleteFile(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(files)
+      .where(eq(files.id, id))
+      .returning({ id: files.id });
+    return deleted.length > 0;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async claimNextJob(type: string, now: Date): Promise<Job | undefined> {
+    // SKIP LOCKED lets several server processes share the queue without claiming the same job
+    return this.db.transaction(async (tx) => {
+      const [next] = await tx.select().from(jobs)
+        .where(and(eq(jobs.type, type), eq(jobs.status, JOB_STATUS.QUEUED), lte(jobs.runAt, now)))
+        .orderBy(asc(jobs.runAt), asc(jobs.id))
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!next) return undefined;
+
+      const [claimed] = await tx.update(jobs)
+        .set({ status: JOB_STATUS.RUNNING, attempts: next.attempts + 1, updatedAt: now })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async updateJob(id: number, changes: Partial<InsertJob>): Promise<Job | undefined> {
+    const [job] = await this.db.update(jobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getActiveJobs(fileId: number): Promise<Job[]> {
+    return this.db.select().from(jobs)
+      .where(and(eq(jobs.fileId, fileId), inArray(jobs.status, ACTIVE_JOB_STATUSES)));
+  }
+
+  async requeueRunningJobs(): Promise<number> {
+    const requeued = await this.db.update(jobs)
+      .set({ status: JOB_STATUS.QUEUED, updatedAt: new Date() })
+      .where(eq(jobs.status, JOB_STATUS.RUNNING))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
 }
 
-export const storage = new MemStorage();
+// Use PostgreSQL when a database is configured, otherwise keep files in memory.
+// Either way each record is mirrored to a manifest next to its blob so it can be restored,
+// and every change is published to connected browsers.
+export const storage: IStorage = new EventStorage(new ManifestStorage(
+  process.env.DATABASE_URL
+    ? new DbStorage(createDb(process.env.DATABASE_URL))
+    : new MemStorage()
+));
@@ -0,0 +1,104 @@
+import fs from 'fs';
+
+export interface Thumbnail {
+  mimeType: 'image/png' | 'image/bmp';
+  data: Buffer;
+}
+
+export interface StoredThumbnail {
+  mimeType: string;
+  path: string;
+}
+
+// Marks the start of the preview image section in R13+ DWG files
+const DWG_IMAGE_SENTINEL = Buffer.from([
+  0x1f, 0x25, 0x6d, 0x07, 0xd4, 0x36, 0x28, 0x28,
+  0x9d, 0x57, 0xca, 0x3f, 0x9d, 0x44, 0x10, 0x2b,
+]);
+
+// Image entry codes in the DWG preview section
+const DWG_IMAGE_BMP = 2;
+const DWG_IMAGE_PNG = 6;
+
+const THUMBNAIL_EXTENSIONS: Record<Thumbnail['mimeType'], string> = {
+  'image/png': 'png',
+  'image/bmp': 'bmp',
+};
+
+// CAD previews are stored as bare DIBs; prepend a BITMAPFILEHEADER so browsers can show them
+export function dibToBmp(dib: Buffer): Buffer {
+  const headerSize = dib.readUInt32LE(0);
+  const bitCount = dib.readUInt16LE(14);
+  const colorsUsed = headerSize >= 36 ? dib.readUInt32LE(32) : 0;
+  const paletteEntries = colorsUsed || (bitCount <= 8 ? 1 << bitCount : 0);
+
+  const fileHeader = Buffer.alloc(14);
+  fileHeader.write('BM', 0, 'latin1');
+  fileHeader.writeUInt32LE(14 + dib.length, 2);
+  fileHeader.writeUInt32LE(14 + headerSize + paletteEntries * 4, 10);
+
+  return Buffer.concat([fileHeader, dib]);
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// Read the embedded preview of an R13 or later DWG, preferring PNG over BMP.
+// WMF previews are ignored because browsers cannot display them.
+export async function extractDwgThumbnail(filePath: string): Promise<Thumbnail | null> {
+  const handle = await fs.promises.open(filePath, 'r');
+
+  try {
+    const header = await readAt(handle, 0, 0x11);
+    if (header.length < 0x11 || !/^AC10(1[2-9]|[2-9]\d)$/.test(header.subarray(0, 6).toString('latin1'))) {
+      return null;
+    }
+
+    const address = header.readUInt32LE(0x0d);
+    const section = await readAt(handle, address, DWG_IMAGE_SENTINEL.length + 5);
+    if (section.length < DWG_IMAGE_SENTINEL.length + 5 ||
+        !section.subarray(0, DWG_IMAGE_SENTINEL.length).equals(DWG_IMAGE_SENTINEL)) {
+      return null;
+    }
+
+    const count = section[DWG_IMAGE_SENTINEL.length + 4];
+    const entries = await readAt(handle, address + DWG_IMAGE_SENTINEL.length + 5, count * 9);
+    const images = new Map<number, { start: number; size: number }>();
+    for (let i = 0; i + 9 <= entries.length; i += 9) {
+      images.set(entries[i], { start: entries.readUInt32LE(i + 1), size: entries.readUInt32LE(i + 5) });
+    }
+
+    const png = images.get(DWG_IMAGE_PNG);
+    if (png && png.size > 0) {
+      return { mimeType: 'image/png', data: await readAt(handle, png.start, png.size) };
+    }
+
+    const bmp = images.get(DWG_IMAGE_BMP);
+    if (bmp && bmp.size > 40) {
+      return { mimeType: 'image/bmp', data: dibToBmp(await readAt(handle, bmp.start, bmp.size)) };
+    }
+
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+export function dxfThumbnail(dib: Buffer | null): Thumbnail | null {
+  if (!dib || dib.length <= 40) return null;
+  // Some exporters write a PNG instead of a DIB into THUMBNAILIMAGE
+  if (dib.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) {
+    return { mimeType: 'image/png', data: dib };
+  }
+  return { mimeType: 'image/bmp', data: dibToBmp(dib) };
+}
+
+// Write the preview next to the uploaded blob
+export async function saveThumbnail(filePath: string, thumbnail: Thumbnail): Promise<StoredThumbnail> {
+  const thumbnailPath = `${filePath}.thumbnail.${THUMBNAIL_EXTENSIONS[thumbnail.mimeType]}`;
+  await fs.promises.writeFile(thumbnailPath, thumbnail.data);
+  return { mimeType: thumbnail.mimeType, path: thumbnailPath };
+}
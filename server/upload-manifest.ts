@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import { FILE_STATUS, type File, type InsertFile } from '@shared/schema';
+import type { IStorage } from './storage';
+import { DelegatingStorage } from './delegating-storage';
+
+export const UPLOADS_DIR = process.env.UPLOADS_DIR || 'uploads';
+
+// Files written next to an uploaded blob; they belong to whichever record owns the blob
+const SIDECAR_PATTERN = /\.(manifest\.json|upload\.json|thumbnail\.(png|bmp)|preview\.(html|txt)|drawing\.v\d+\.json)$/;
+const MANIFEST_SUFFIX = '.manifest.json';
+
+// Marks a blob that is still being assembled from chunks
+export const UPLOAD_SESSION_SUFFIX = '.upload.json';
+
+// Blobs this young may still be mid-upload and not yet have a record
+const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+export interface OrphanedUpload {
+  path: string;
+  size: number;
+  modifiedAt: string;
+}
+
+export interface MissingBlob {
+  id: number;
+  originalName: string;
+  filePath: string;
+}
+
+export interface UploadsReport {
+  orphans: OrphanedUpload[];
+  missingBlobs: MissingBlob[];
+}
+
+export function manifestPath(filePath: string): string {
+  return `${filePath}${MANIFEST_SUFFIX}`;
+}
+
+async function writeManifest(file: File): Promise<void> {
+  const { id, ...record } = file;
+  try {
+    await fs.promises.writeFile(manifestPath(file.filePath), JSON.stringify(record, null, 2));
+  } catch (error) {
+    console.error('Manifest write error:', error);
+  }
+}
+
+// Mirrors every record into a JSON manifest beside its blob so the index can be rebuilt after a restart
+export class ManifestStorage extends DelegatingStorage {
+  async createFile(insertFile: InsertFile): Promise<File> {
+    const file = await this.inner.createFile(insertFile);
+    await writeManifest(file);
+    return file;
+  }
+
+  async restoreFile(record: Omit<File, 'id'>): Promise<File> {
+    const file = await this.inner.restoreFile(record);
+    await writeManifest(file);
+    return file;
+  }
+
+  async updateFileStatus(id: number, status: string, errorMessage?: string): Promise<File | undefined> {
+    const file = await this.inner.updateFileStatus(id, status, errorMessage);
+    if (file) await writeManifest(file);
+    return file;
+  }
+
+  async updateFileMetadata(id: number, metadata: string): Promise<File | undefined> {
+    const file = await this.inner.updateFileMetadata(id, metadata);
+    if (file) await writeManifest(file);
+    return file;
+  }
+
+  async setFileDeletedAt(id: number, deletedAt: Date | null): Promise<File | undefined> {
+    const file = await this.inner.setFileDeletedAt(id, deletedAt);
+    if (file) await writeManifest(file);
+    return file;
+  }
+
+  async deleteFile(id: number): Promise<boolean> {
+    const file = await this.inner.getFile(id);
+    const deleted = await this.inner.deleteFile(id);
+    if (deleted && file) {
+      await fs.promises.rm(manifestPath(file.filePath), { force: true });
+    }
+    return deleted;
+  }
+}
+
+// Remove a stored upload and its sidecars; the manifest goes with the record in ManifestStorage.deleteFile
+export async function removeUploadFiles(filePath: string): Promise<void> {
+  const blobName = path.basename(filePath);
+  const names = await listUploads(path.dirname(filePath));
+  const sidecars = names.filter(name =>
+    name.replace(SIDECAR_PATTERN, '') === blobName && !name.endsWith(MANIFEST_SUFFIX)
+  );
+
+  for (const name of sidecars) {
+    await fs.promises.rm(path.join(path.dirname(filePath), name), { force: true });
+  }
+  await fs.promises.rm(filePath, { force: true });
+}
+
+async function listUploads(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    return entries.filter(entry => entry.isFile()).map(entry => entry.name);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function readManifest(manifestFile: string): Promise<Omit<File, 'id'> | null> {
+  try {
+    const record = JSON.parse(await fs.promises.readFile(manifestFile, 'utf8'));
+    return {
+      ...record,
+      uploadedAt: new Date(record.uploadedAt),
+      processedAt: record.processedAt ? new Date(record.processedAt) : null,
+      deletedAt: record.deletedAt ? new Date(record.deletedAt) : null,
+    };
+  } catch (error) {
+    console.error(`Unreadable upload manifest ${manifestFile}:`, error);
+    return null;
+  }
+}
+
+// List blobs and sidecars no record points to, and records whose blob is gone
+export async function inspectUploads(storage: IStorage, dir = UPLOADS_DIR): Promise<UploadsReport> {
+  const records = await storage.getAllFiles();
+  const referenced = new Set(records.map(file => path.resolve(file.filePath)));
+
+  const names = await listUploads(dir);
+  const present = new Set(names);
+
+  const orphans: OrphanedUpload[] = [];
+  for (const name of names) {
+    const blobName = name.replace(SIDECAR_PATTERN, '');
+    const blobPath = path.join(dir, blobName);
+    if (referenced.has(path.resolve(blobPath))) continue;
+    // Resumable uploads in progress have no record yet; stale ones expire on their own
+    if (present.has(`${blobName}${UPLOAD_SESSION_SUFFIX}`)) continue;
+
+    const stats = await fs.promises.stat(path.join(dir, name));
+    orphans.push({ path: path.join(dir, name), size: stats.size, modifiedAt: stats.mtime.toISOString() });
+  }
+
+  const missingBlobs: MissingBlob[] = [];
+  for (const file of records) {
+    if (!fs.existsSync(file.filePath)) {
+      missingBlobs.push({ id: file.id, originalName: file.originalName, filePath: file.filePath });
+    }
+  }
+
+  return { orphans, missingBlobs };
+}
+
+// Delete orphaned blobs and sidecars, sparing recent ones that may belong to an upload in flight
+export async function collectOrphans(storage: IStorage, dir = UPLOADS_DIR): Promise<OrphanedUpload[]> {
+  const { orphans } = await inspectUploads(storage, dir);
+  const cutoff = Date.now() - ORPHAN_GRACE_MS;
+  const deleted: OrphanedUpload[] = [];
+
+  for (const orphan of orphans) {
+    if (new Date(orphan.modifiedAt).getTime() > cutoff) continue;
+    await fs.promises.rm(orphan.path, { force: true });
+    deleted.push(orphan);
+  }
+
+  return deleted;
+}
+
+// Restore records for blobs that have a manifest but are unknown to storage, e.g. after a restart with MemStorage
+export async function reconcileUploads(storage: IStorage, dir = UPLOADS_DIR): Promise<UploadsReport> {
+  const names = await listUploads(dir);
+  const present = new Set(names);
+  const known = new Set((await storage.getAllFiles()).map(file => path.resolve(file.filePath)));
+
+  const restorable: Omit<File, 'id'>[] = [];
+  for (const name of names) {
+    if (!name.endsWith(MANIFEST_SUFFIX)) continue;
+
+    const blobName = name.slice(0, -MANIFEST_SUFFIX.length);
+    const blobPath = path.join(dir, blobName);
+    if (!present.has(blobName) || known.has(path.resolve(blobPath))) continue;
+
+    const record = await readManifest(path.join(dir, name));
+    if (record) restorable.push({ ...record, filePath: blobPath });
+  }
+
+  // A resumable upload outlives the process, so its record stays 'uploading' until it completes or expires
+  const resumable = (record: Omit<File, 'id'>) =>
+    record.status === FILE_STATUS.UPLOADING && present.has(`${path.basename(record.filePath)}${UPLOAD_SESSION_SUFFIX}`);
+
+  // Restore oldest first so ids follow upload order
+  restorable.sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime());
+  for (const record of restorable) {
+    // Jobs are only durable with DbStorage, so anything still pending was lost with the old process
+    const interrupted = !resumable(record) && (record.status === FILE_STATUS.UPLOADING ||
+      record.status === FILE_STATUS.QUEUED || record.status === FILE_STATUS.PROCESSING);
+    await storage.restoreFile(interrupted
+      ? { ...record, status: FILE_STATUS.ERROR, errorMessage: 'Processing was interrupted by a server restart', processedAt: new Date() }
+      : record);
+  }
+
+  const report = await inspectUploads(storage, dir);
+  console.log(
+    `Uploads reconciled: ${restorable.length} restored, ${report.orphans.length} orphaned, ` +
+    `${report.missingBlobs.length} missing blobs`
+  );
+  return report;
+}
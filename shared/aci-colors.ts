@@ -0,0 +1,60 @@
+// AutoCAD Color Index (ACI) palette helpers shared by the DXF geometry
+// builder on the server and the drawing/layer views on the client.
+
+const BASE_COLORS: Record<number, string> = {
+  1: '#ff0000',
+  2: '#ffff00',
+  3: '#00ff00',
+  4: '#00ffff',
+  5: '#0000ff',
+  6: '#ff00ff',
+  7: '#ffffff',
+  8: '#808080',
+  9: '#c0c0c0',
+};
+
+const GRAY_SHADES = [0x33, 0x5b, 0x84, 0xad, 0xd6, 0xff];
+const SHADE_VALUES = [1, 0.8, 0.6, 0.5, 0.3];
+
+function toHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
+
+function hueToRgb(hue: number): [number, number, number] {
+  const h = (hue % 360) / 60;
+  const x = 1 - Math.abs((h % 2) - 1);
+  if (h < 1) return [1, x, 0];
+  if (h < 2) return [x, 1, 0];
+  if (h < 3) return [0, 1, x];
+  if (h < 4) return [0, x, 1];
+  if (h < 5) return [x, 0, 1];
+  return [1, 0, x];
+}
+
+// Convert an ACI number (1-255) to a CSS hex colour. Colours 10-249 are laid
+// out as 24 hues of ten shades each, alternating saturated and pastel tones.
+export function aciToHex(index: number): string {
+  const aci = Math.abs(index);
+  if (BASE_COLORS[aci]) return BASE_COLORS[aci];
+
+  if (aci >= 250 && aci <= 255) {
+    const shade = GRAY_SHADES[aci - 250];
+    return toHex(shade, shade, shade);
+  }
+
+  if (aci >= 10 && aci <= 249) {
+    const hue = Math.floor((aci - 10) / 10) * 15;
+    const step = aci % 10;
+    const value = SHADE_VALUES[Math.floor(step / 2)];
+    const saturation = step % 2 === 0 ? 1 : 0.5;
+    const [r, g, b] = hueToRgb(hue).map(c => (1 - saturation * (1 - c)) * value * 255);
+    return toHex(r, g, b);
+  }
+
+  return BASE_COLORS[7];
+}
+
+// Convert a DXF 24-bit true colour (group code 420) to a CSS hex colour
+export function trueColorToHex(value: number): string {
+  return '#' + (value & 0xffffff).toString(16).padStart(6, '0');
+}
@@ -0,0 +1,11 @@
+// Viewers the client can show a processed file in, matching the metadata viewerType
+export type ViewerType = 'aps' | 'dxf' | 'pdf' | 'image' | 'document' | 'standard';
+
+// Returned by GET /api/capabilities so the UI only offers what this server can do
+export interface Capabilities {
+  // 'local-only' when APS credentials are missing and drawings cannot be translated in the cloud
+  mode: 'cloud' | 'local-only';
+  aps: boolean;
+  processors: Array<{ name: string; queue: string; viewer: ViewerType }>;
+  viewers: ViewerType[];
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+// Model Derivative outputs a drawing can be translated to. svf2 feeds the viewer and is always requested.
+export const OUTPUT_FORMATS = ['svf2', 'thumbnail', 'pdf', 'ifc', 'obj', 'stl'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  svf2: 'Viewer (SVF2)',
+  thumbnail: 'Thumbnail',
+  pdf: 'PDF of layouts',
+  ifc: 'IFC',
+  obj: 'OBJ',
+  stl: 'STL',
+};
+
+// Body of POST /api/files/:id/derivatives
+export const requestDerivativesSchema = z.object({
+  formats: z.array(z.enum(OUTPUT_FORMATS)).min(1),
+});
+
+export type DerivativeStatus = 'pending' | 'inprogress' | 'success' | 'failed' | 'timeout';
+
+// A file produced by a translation, downloadable through GET /api/files/:id/derivatives/:guid
+export interface DerivativeFile {
+  guid: string;
+  name: string;
+  role: string;
+  mime?: string;
+}
+
+// One requested output as tracked in the APS manifest
+export interface DerivativeOutput {
+  outputType: string;
+  status: DerivativeStatus;
+  // Percent complete, 0-100
+  progress: number;
+  files: DerivativeFile[];
+}
+
+// Something the viewer can open: a 2D sheet or layout, or a 3D view
+export interface Viewable {
+  guid: string;
+  name: string;
+  role: '2d' | '3d';
+}
+
+export interface TranslationMessage {
+  type: 'error' | 'warning' | 'info';
+  code: string;
+  message: string;
+  // The output the message belongs to, if not the translation as a whole
+  outputType?: string;
+}
+
+// The APS manifest of a translated drawing, parsed into what the UI shows. Stored as metadata.translation.
+export interface TranslationSummary {
+  status: DerivativeStatus;
+  // Overall percent complete, 0-100
+  progress: number;
+  outputs: DerivativeOutput[];
+  viewables: Viewable[];
+  messages: TranslationMessage[];
+}
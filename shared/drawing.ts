@@ -0,0 +1,45 @@
+// Render-ready DXF geometry returned by GET /api/files/:id/drawing.
+// Curves are tessellated on the server so the client only draws polylines and text.
+
+export interface DrawingPath {
+  type: 'path';
+  layer: string;
+  color: string | null; // null means BYLAYER
+  points: [number, number][];
+  closed: boolean;
+}
+
+export interface DrawingText {
+  type: 'text';
+  layer: string;
+  color: string | null;
+  x: number;
+  y: number;
+  height: number;
+  rotation: number; // degrees, counter-clockwise
+  text: string;
+  align: 'left' | 'center' | 'right';
+  baseline: 'alphabetic' | 'bottom' | 'middle' | 'top';
+}
+
+export type DrawingPrimitive = DrawingPath | DrawingText;
+
+export interface DrawingExtents {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface DrawingLayer {
+  name: string;
+  color: string;
+}
+
+export interface Drawing {
+  layers: DrawingLayer[];
+  extents: DrawingExtents | null;
+  primitives: DrawingPrimitive[];
+  // True when the drawing expanded to more entities than the server renders and only part of it is included
+  truncated: boolean;
+}
@@ -0,0 +1,12 @@
+import type { File } from "./schema";
+
+// Messages pushed to browsers on the /api/events WebSocket whenever a file record changes
+export type FileEvent =
+  | { type: 'file.created'; file: File }
+  | { type: 'file.status'; file: File }
+  | { type: 'file.metadata'; file: File }
+  | { type: 'file.trashed'; file: File }
+  | { type: 'file.restored'; file: File }
+  | { type: 'file.deleted'; id: number };
+
+export const FILE_EVENTS_PATH = '/api/events';
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,22 +10,50 @@ export const files = pgTable("files", {
   size: integer("size").notNull(),
   filePath: text("file_path").notNull(),
   fileType: text("file_type").notNull(), // 'autocad', 'pdf', 'image', 'document', 'other'
-  status: text("status").notNull().default("uploading"), // 'uploading', 'processing', 'ready', 'error'
+  status: text("status").notNull().default("uploading"), // 'uploading', 'queued', 'processing', 'ready', 'error'
   errorMessage: text("error_message"),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
   processedAt: timestamp("processed_at"),
   metadata: text("metadata"), // JSON string for additional file info
+  deletedAt: timestamp("deleted_at"), // set while the file is in the trash
 });
 
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
   uploadedAt: true,
   processedAt: true,
+  deletedAt: true,
 });
 
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
 
+// Background processing work for a file; rows outlive restarts so interrupted jobs can resume
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  fileId: integer("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // worker that runs the job: 'aps', 'local'
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed', 'cancelled'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").defaultNow().notNull(), // earliest time the job may be claimed
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("jobs_claim_idx").on(table.type, table.status, table.runAt),
+  index("jobs_file_idx").on(table.fileId),
+]);
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
 // File type enums
 export const FILE_TYPES = {
   AUTOCAD: 'autocad',
@@ -35,9 +63,26 @@ export const FILE_TYPES = {
   OTHER: 'other'
 } as const;
 
+// Extensions recognised as each file type; the upload picker offers all of them
+export const FILE_EXTENSIONS = {
+  [FILE_TYPES.AUTOCAD]: ['.dwg', '.dxf', '.dwt'],
+  [FILE_TYPES.PDF]: ['.pdf'],
+  [FILE_TYPES.IMAGE]: ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'],
+  [FILE_TYPES.DOCUMENT]: ['.doc', '.docx', '.txt', '.rtf'],
+};
+
 export const FILE_STATUS = {
   UPLOADING: 'uploading',
+  QUEUED: 'queued',
   PROCESSING: 'processing',
   READY: 'ready',
   ERROR: 'error'
 } as const;
+
+export const JOB_STATUS = {
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled'
+} as const;